@@ -3,6 +3,35 @@ import { DataManagementService } from './services/DataManagementService.js';
 import { ProviderManagementService } from './services/ProviderManagementService.js';
 import { FuzzyMatchingService } from './services/FuzzyMatchingService.js';
 import { ConfigurationService } from './services/ConfigurationService.js';
+import type { AnalysisSettings, HedgingSettings, TimeoutSettings } from './services/ConfigurationService.js';
+import { CostTrackingService } from './services/CostTrackingService.js';
+import { ProviderResolutionService } from './services/ProviderResolutionService.js';
+import { ModelCatalogService } from './services/ModelCatalogService.js';
+import { LatencyService } from './services/LatencyService.js';
+import { DecisionCacheService } from './services/DecisionCacheService.js';
+import { RetryService } from './services/RetryService.js';
+import type { RetryConfig } from './services/RetryService.js';
+import { CircuitBreakerService } from './services/CircuitBreakerService.js';
+import type { BreakerListener, BreakerStatus, CircuitBreakerSettings } from './services/CircuitBreakerService.js';
+import { RateLimitService } from './services/RateLimitService.js';
+import type { RateLimitConfig, RateLimitStatus } from './services/RateLimitService.js';
+import type { CacheStats, DecisionCacheOptions } from './services/DecisionCacheService.js';
+import type { LatencyCorrection } from './services/LatencyService.js';
+import type { ModelCatalog } from './services/ModelCatalogService.js';
+import type { ProviderResolutionReport } from './services/ProviderResolutionService.js';
+import { BudgetService } from './services/BudgetService.js';
+import { CompliancePolicyService } from './services/CompliancePolicyService.js';
+import type { ComplianceConfig, DataClassificationRule } from './services/CompliancePolicyService.js';
+import { RoutingAuditService } from './services/RoutingAuditService.js';
+import type { AuditFilter, ModelExclusion, RoutingAuditRecord } from './services/RoutingAuditService.js';
+import type { BudgetConfig, BudgetStatus, CostEstimate } from './services/BudgetService.js';
+import type { SpendEntry, SpendFilter, SpendInterval, SpendSummary, SpendWindow } from './services/CostTrackingService.js';
+import type { ChatMessage, CompliancePolicy } from './providers/base.js';
+import type { CascadeOptions, ChatCascadeResponse, ChatEnsembleResponse, ChatJSONResponse, ChatOptions, ChatResponse, ChatStreamResponse, EnsembleOptions, RequestOptions } from './services/ChatService.js';
+import type { JSONSchema } from './services/StructuredOutputService.js';
+import { StrategyRegistry } from './strategies/registry.js';
+import type { SelectionStrategy } from './strategies/base.js';
+import type { ScoringWeights } from './strategies/scoring.js';
 
 export type RouterClientOptions = {
     AI_ANALYSIS_API?: string;
@@ -13,14 +42,41 @@ export type RouterClientOptions = {
         accurate?: boolean;
         middle?: boolean;
         rotating?: boolean;
+        strategy?: string; // Name of a registered strategy, overrides cheapest/accurate/middle
+        weights?: Partial<ScoringWeights>; // Objective weights for the 'weighted' strategy
     };
+    strategies?: SelectionStrategy[]; // Custom selection strategies to register
+    analysis?: Partial<AnalysisSettings>; // Local classifier vs LLM request analysis
+    hedging?: Partial<HedgingSettings>; // Run backup candidates in parallel instead of strictly one after another
+    timeouts?: Partial<TimeoutSettings>; // Request, per-attempt and data fetch time limits
+    retry?: RetryConfig; // Backoff for transient failures, per provider and error class, before failing over
+    circuitBreaker?: Partial<CircuitBreakerSettings>; // Failure thresholds and cooldowns for model and provider breakers
+    rateLimits?: RateLimitConfig; // Client-side request, token and concurrency limits per provider and API key
+    cache?: DecisionCacheOptions; // TTL and storage for cached analyses and rankings
     providers?: Array<{
         provider_name: string;
         api_key: string;
     }>;
     stale_clean_up?: boolean; // true by default, removes stale unused models
+    budgets?: BudgetConfig; // Per-request, daily and monthly spend caps in USD
+    providerAliases?: Record<string, string[]>; // Benchmark creator name -> provider keys that serve its models
+    modelCatalog?: ModelCatalog; // Provider key -> benchmark model name -> API model ID, overrides the built-in table
+    compliance?: ComplianceConfig; // Data classification rules and provider/model compliance policies
+    auditLogSize?: number; // Routing audit records kept in memory, default 10000
 };
 
+// Per-call restrictions applied while filtering candidate models
+export interface ModelFilterOptions {
+    costEstimate?: CostEstimate; // Expected request size; models the budget cannot afford are dropped
+    allowProviders?: string[];
+    denyProviders?: string[];
+    allowModels?: string[]; // Benchmark name, provider:name, or API model ID
+    denyModels?: string[];
+    pinnedModel?: string; // Only this model; relevant-metric filtering is skipped for it
+    dataClassification?: string; // Drop models whose compliance policy does not allow this class
+    onExcluded?: (exclusion: ModelExclusion) => void; // Told about each model an override, open breaker, policy or budget removed
+}
+
 // Provider-level interface
 interface ProviderData {
   has_api_key: boolean;
@@ -32,7 +88,8 @@ interface ProviderData {
 // Base model interface
 interface ModelData {
   name: string; // Model name
-  provider_name: string; // Provider/creator name
+  provider_name: string; // Provider key that serves this model (e.g. 'meta-llama-groq')
+  creator_name: string; // Benchmark creator name (e.g. 'Meta')
   evaluations: Map<string, number>; // metric_name -> score
   price: number;
   latency: number;
@@ -92,7 +149,19 @@ interface MediaProviderData extends ProviderData {
     private dataService: DataManagementService;
     private providerService: ProviderManagementService;
     private fuzzyMatchingService: FuzzyMatchingService;
+    private resolutionService: ProviderResolutionService;
+    private catalogService: ModelCatalogService;
+    private strategyRegistry: StrategyRegistry;
     private configService: ConfigurationService;
+    private costService: CostTrackingService;
+    private budgetService: BudgetService;
+    private latencyService: LatencyService;
+    private decisionCache: DecisionCacheService;
+    private retryService: RetryService;
+    private circuitBreaker: CircuitBreakerService;
+    private rateLimitService: RateLimitService;
+    private policyService: CompliancePolicyService;
+    private auditService: RoutingAuditService;
     private chatService: ChatService;
     
     // New hierarchical data structure
@@ -116,17 +185,52 @@ interface MediaProviderData extends ProviderData {
         this.providers = options.providers ?? [];
         
       // Initialize services
+      const { strategy, weights, ...modelSelection } = options.modelSelection || {};
       this.configService = new ConfigurationService(
-        options.modelSelection || {}, // Pass user's modelSelection config
+        modelSelection, // Pass user's modelSelection config
         maxAge,
         staleCleanUp
       );
       
+      this.strategyRegistry = new StrategyRegistry();
+      for (const customStrategy of options.strategies ?? []) {
+        this.strategyRegistry.register(customStrategy);
+      }
+      if (strategy) {
+        this.setSelectionStrategy(strategy);
+      }
+      if (weights) {
+        this.configService.setScoringWeights(weights);
+      }
+      if (options.analysis) {
+        this.configService.setAnalysisSettings(options.analysis);
+      }
+      if (options.hedging) {
+        this.configService.setHedgingSettings(options.hedging);
+      }
+      if (options.timeouts) {
+        this.configService.setTimeoutSettings(options.timeouts);
+      }
+      
+      this.fuzzyMatchingService = new FuzzyMatchingService(
+        this.llmProviders,
+        this.mediaProviders
+      );
+      
+      this.resolutionService = new ProviderResolutionService(
+        this.fuzzyMatchingService,
+        options.providerAliases ?? {}
+      );
+      
+      this.catalogService = new ModelCatalogService(options.modelCatalog ?? {});
+      
       this.dataService = new DataManagementService(
         this.AI_ANALYSIS_API,
         this.fetchFn,
         this.llmProviders,
-        this.mediaProviders
+        this.mediaProviders,
+        this.resolutionService,
+        () => this.configService.getTimeoutSettings().dataFetchMs
       );
       
       this.providerService = new ProviderManagementService(
@@ -135,10 +239,15 @@ interface MediaProviderData extends ProviderData {
         this.providers
       );
       
-      this.fuzzyMatchingService = new FuzzyMatchingService(
-        this.llmProviders,
-        this.mediaProviders
-      );
+      this.costService = new CostTrackingService(this.llmProviders);
+      this.budgetService = new BudgetService(this.costService, options.budgets ?? {});
+      this.latencyService = new LatencyService();
+      this.decisionCache = new DecisionCacheService(options.cache ?? {});
+      this.retryService = new RetryService(options.retry ?? {});
+      this.circuitBreaker = new CircuitBreakerService(options.circuitBreaker ?? {});
+      this.rateLimitService = new RateLimitService(options.rateLimits ?? {});
+      this.policyService = new CompliancePolicyService(options.compliance ?? {});
+      this.auditService = new RoutingAuditService(options.auditLogSize);
       
       // Initialize chat service
       this.chatService = new ChatService(this);
@@ -149,17 +258,23 @@ interface MediaProviderData extends ProviderData {
       }
     }
 
-    async initialize(): Promise<void> {
+    /**
+     * Load benchmark data and configure providers
+     * @param signal - Cancels the benchmark data API calls
+     */
+    async initialize(signal?: AbortSignal): Promise<void> {
       // Clear existing data for fresh start
       this.llmProviders.clear();
       this.mediaProviders.clear();
+      this.resolutionService.reset();
       
       // Fetch and populate data fresh using data service
-      await this.dataService.populateLLMData();
-      await this.dataService.populateMediaData();
+      await this.dataService.populateLLMData(signal);
+      await this.dataService.populateMediaData(signal);
       
       // Set initialization timestamp
       this.lastInitialization = Date.now();
+      await this.decisionCache.updateCatalog(this.getModelKeys());
 
       // Process provider API keys if provided
       if (this.providers) {
@@ -168,14 +283,20 @@ interface MediaProviderData extends ProviderData {
     }
 
     // Public method to refresh data while preserving last_used timestamps
-    async refreshData(): Promise<void> {
+    async refreshData(signal?: AbortSignal): Promise<void> {
       // Fetch and update data (preserving last_used timestamps) using data service
-      await this.dataService.populateLLMData();
-      await this.dataService.populateMediaData();
+      await this.dataService.populateLLMData(signal);
+      await this.dataService.populateMediaData(signal);
       
       // Update initialization timestamp
       this.lastInitialization = Date.now();
       
+      // Cached decisions are dropped only if the model set changed
+      await this.decisionCache.updateCatalog(this.getModelKeys());
+      
+      // Providers first seen in this refresh need their API key status and capabilities
+      this.providerService.processProviderAPIKeys(this.providers);
+      
       console.log('Data refreshed while preserving usage history');
     }
 
@@ -188,6 +309,82 @@ interface MediaProviderData extends ProviderData {
       return this.configService.getSelectionStrategy();
     }
 
+    /**
+     * Register a custom selection strategy so it can be chosen by name
+     */
+    registerStrategy(strategy: SelectionStrategy): void {
+      this.strategyRegistry.register(strategy);
+    }
+
+    /**
+     * Route with a registered strategy instead of the cheapest/accurate/middle flags
+     * @param name - Strategy name, or null to return to the built-in flags
+     * @throws Error if no strategy with that name is registered
+     */
+    setSelectionStrategy(name: string | null): void {
+      if (name !== null && !this.strategyRegistry.has(name)) {
+        throw new Error(`Unknown selection strategy: ${name}. Registered: ${this.strategyRegistry.getNames().join(', ')}`);
+      }
+      this.configService.setCustomStrategy(name);
+    }
+
+    /**
+     * Set how the 'weighted' strategy trades off quality, blended price,
+     * time to first token and throughput; unspecified objectives keep their defaults
+     */
+    setScoringWeights(weights: Partial<ScoringWeights>): void {
+      this.configService.setScoringWeights(weights);
+    }
+
+    getScoringWeights(): ScoringWeights {
+      return this.configService.getScoringWeights();
+    }
+
+    /**
+     * Choose between the local classifier and the LLM for request analysis.
+     * In 'auto' mode the LLM is only asked when local confidence is below the threshold.
+     */
+    setAnalysisSettings(settings: Partial<AnalysisSettings>): void {
+      this.configService.setAnalysisSettings(settings);
+    }
+
+    getAnalysisSettings(): AnalysisSettings {
+      return this.configService.getAnalysisSettings();
+    }
+
+    /**
+     * Configure hedged requests: 'hedge' launches the next candidate when the current one
+     * has not answered within delayMs, 'race' starts maxParallel candidates at once.
+     * The first success wins and the others are aborted.
+     */
+    setHedgingSettings(settings: Partial<HedgingSettings>): void {
+      this.configService.setHedgingSettings(settings);
+    }
+
+    getHedgingSettings(): HedgingSettings {
+      return this.configService.getHedgingSettings();
+    }
+
+    /**
+     * Configure default time limits: requestMs for a whole request, attemptMs for each
+     * model attempt before failing over, dataFetchMs for each benchmark data API call.
+     * Requests can override the first two with timeoutMs and attemptTimeoutMs.
+     */
+    setTimeoutSettings(settings: Partial<TimeoutSettings>): void {
+      this.configService.setTimeoutSettings(settings);
+    }
+
+    getTimeoutSettings(): TimeoutSettings {
+      return this.configService.getTimeoutSettings();
+    }
+
+    /**
+     * Get the strategy registry (for ChatService model selection)
+     */
+    getStrategyRegistry(): StrategyRegistry {
+      return this.strategyRegistry;
+    }
+
     isRotatingEnabled() {
       return this.configService.isRotatingEnabled();
     }
@@ -211,6 +408,67 @@ interface MediaProviderData extends ProviderData {
     return this.providerService.getProviderConfig(providerName);
   }
 
+  /**
+   * Report how benchmark creators map to provider keys, including
+   * creators no provider can serve and configured providers nothing maps to
+   */
+  getProviderResolution(): ProviderResolutionReport {
+    return this.resolutionService.getReport(this.getProviders());
+  }
+
+  /**
+   * Get the decision cache (for ChatService analysis and ranking)
+   */
+  getDecisionCache(): DecisionCacheService {
+    return this.decisionCache;
+  }
+
+  /**
+   * Get hit/miss counts for cached analyses and rankings
+   */
+  getCacheStats(): CacheStats {
+    return this.decisionCache.getStats();
+  }
+
+  /**
+   * Drop all cached analyses and rankings
+   */
+  async clearDecisionCache(): Promise<void> {
+    await this.decisionCache.clear();
+  }
+
+  /**
+   * Get the latency service (for ChatService deadline checks)
+   */
+  getLatencyService(): LatencyService {
+    return this.latencyService;
+  }
+
+  /**
+   * Get how far observed latencies differ from the published medians,
+   * per provider and per provider:model (ratio > 1 means slower than published)
+   */
+  getLatencyCorrections(): { providers: Record<string, LatencyCorrection>; models: Record<string, LatencyCorrection> } {
+    return this.latencyService.getCorrections();
+  }
+
+  /**
+   * Get the model catalog (for ChatService API model IDs)
+   */
+  getModelCatalog(): ModelCatalogService {
+    return this.catalogService;
+  }
+
+  /**
+   * Map a benchmark model name to the API model ID a provider expects
+   * @param providerName - Provider key (e.g. 'meta-llama-groq')
+   * @param modelName - Artificial Analysis model name (e.g. "Llama 3.3 Instruct 70B")
+   * @param apiModelId - Model ID passed to the provider's API
+   */
+  setModelMapping(providerName: string, modelName: string, apiModelId: string): void {
+    this.catalogService.setOverride(providerName, modelName, apiModelId);
+  }
+
   /**
    * Get LLM providers (for ChatService rotation logic)
    */
@@ -225,6 +483,185 @@ interface MediaProviderData extends ProviderData {
     return this.mediaProviders;
   }
 
+  /**
+   * Get the cost tracking service (for ChatService cost accounting)
+   */
+  getCostTrackingService(): CostTrackingService {
+    return this.costService;
+  }
+
+  /**
+   * Get total spend broken down by provider, model and purpose
+   * @param filter - Optional provider, model, purpose and time window filter
+   */
+  getSpend(filter: SpendFilter = {}): SpendSummary {
+    return this.costService.getSummary(filter);
+  }
+
+  /**
+   * Get individual spend ledger entries, oldest first
+   */
+  getSpendEntries(filter: SpendFilter = {}): SpendEntry[] {
+    return this.costService.getEntries(filter);
+  }
+
+  /**
+   * Get spend bucketed into hourly, daily or monthly (UTC) windows
+   */
+  getSpendByInterval(interval: SpendInterval, filter: SpendFilter = {}): SpendWindow[] {
+    return this.costService.getSpendByInterval(interval, filter);
+  }
+
+  /**
+   * Clear the spend ledger
+   */
+  resetSpendLedger(): void {
+    this.costService.reset();
+  }
+
+  /**
+   * Get the budget service (for ChatService budget enforcement)
+   */
+  getBudgetService(): BudgetService {
+    return this.budgetService;
+  }
+
+  /**
+   * Replace the per-request, daily and monthly spend caps
+   */
+  setBudgets(budgets: BudgetConfig): void {
+    this.budgetService.setConfig(budgets);
+  }
+
+  /**
+   * Get spent and remaining amounts for every configured daily and monthly cap
+   * @param providerName - Only include caps that apply to this provider
+   */
+  getBudgetStatus(providerName?: string): BudgetStatus[] {
+    return this.budgetService.getStatus(providerName);
+  }
+
+  /**
+   * Get the retry service (for ChatService provider calls)
+   */
+  getRetryService(): RetryService {
+    return this.retryService;
+  }
+
+  /**
+   * Replace the retry policy: attempts, base delay, jitter and cap per provider and error class
+   */
+  setRetryPolicy(config: RetryConfig): void {
+    this.retryService.setConfig(config);
+  }
+
+  /**
+   * Get the circuit breaker service (for ChatService attempt outcomes)
+   */
+  getCircuitBreakerService(): CircuitBreakerService {
+    return this.circuitBreaker;
+  }
+
+  /**
+   * Update circuit breaker thresholds and cooldowns
+   */
+  setCircuitBreakerSettings(settings: Partial<CircuitBreakerSettings>): void {
+    this.circuitBreaker.setSettings(settings);
+  }
+
+  /**
+   * Get the state of every model and provider breaker that has recorded a failure
+   */
+  getCircuitBreakerStatus(): BreakerStatus[] {
+    return this.circuitBreaker.getStatus();
+  }
+
+  /**
+   * Close a breaker and clear its failures, e.g. after fixing an API key
+   * @param key - 'provider:model' or a provider key; omit to reset all breakers
+   */
+  resetCircuitBreaker(key?: string): void {
+    this.circuitBreaker.reset(key);
+  }
+
+  /**
+   * Subscribe to breaker state changes (closed, open, half_open)
+   * @returns A function that unsubscribes the listener
+   */
+  onCircuitBreakerStateChange(listener: BreakerListener): () => void {
+    return this.circuitBreaker.onStateChange(listener);
+  }
+
+  /**
+   * Get the rate limit service (for ChatService provider calls and rotation)
+   */
+  getRateLimitService(): RateLimitService {
+    return this.rateLimitService;
+  }
+
+  /**
+   * Replace the client-side rate limits; limits learned from response headers are kept
+   */
+  setRateLimits(config: RateLimitConfig): void {
+    this.rateLimitService.setConfig(config);
+  }
+
+  /**
+   * Get capacity, in-flight calls and queue length for every API key that has handled a call
+   */
+  getRateLimitStatus(): RateLimitStatus[] {
+    return this.rateLimitService.getStatus();
+  }
+
+  /**
+   * Get the compliance policy service (for ChatService data classification checks)
+   */
+  getCompliancePolicyService(): CompliancePolicyService {
+    return this.policyService;
+  }
+
+  /**
+   * Override a provider's compliance policy (regions, retention, training, certifications)
+   */
+  setProviderPolicy(providerName: string, policy: Partial<CompliancePolicy>): void {
+    this.policyService.setProviderPolicy(providerName, policy);
+  }
+
+  /**
+   * Override the compliance policy of a single model
+   */
+  setModelPolicy(providerName: string, modelName: string, policy: Partial<CompliancePolicy>): void {
+    this.policyService.setModelPolicy(providerName, modelName, policy);
+  }
+
+  /**
+   * Add or replace the rules for a data classification
+   */
+  setDataClassificationRule(classification: string, rule: DataClassificationRule): void {
+    this.policyService.setClassificationRule(classification, rule);
+  }
+
+  /**
+   * Get the routing audit service (for ChatService to record decisions)
+   */
+  getRoutingAuditService(): RoutingAuditService {
+    return this.auditService;
+  }
+
+  /**
+   * Get routing audit records: candidates, exclusions with reasons, and the model that served each request
+   */
+  getRoutingAudit(filter: AuditFilter = {}): RoutingAuditRecord[] {
+    return this.auditService.getRecords(filter);
+  }
+
+  /**
+   * Get the audit record for a request by the requestId in its response metadata
+   */
+  getRoutingAuditRecord(requestId: string): RoutingAuditRecord | undefined {
+    return this.auditService.getRecord(requestId);
+  }
+
     // Configuration setters
     setMaxAge(maxAge: number): void {
       this.configService.setMaxAge(maxAge);
@@ -275,9 +712,53 @@ interface MediaProviderData extends ProviderData {
 
       /**
    * Execute a chat request using the smart routing system
+   * @param request - A single user message, or a conversation of system/user/assistant/tool turns
+   * @param options - Generation parameters (temperature, maxTokens, stop, topP, seed), tools, and
+   *                  routing constraints (maxLatencyMs, deadline, expectedOutputTokens);
+   *                  supplying tools restricts routing to tool-capable models
+   */
+  async chat(request: string | ChatMessage[], options: ChatOptions = {}): Promise<ChatResponse> {
+    return this.chatService.execute(request, options);
+  }
+
+  /**
+   * Execute a chat request whose answer must be JSON matching a schema.
+   * Uses each provider's native JSON mode where available and validates the result;
+   * invalid output is repaired or re-asked before failing over to the next model.
+   */
+  async chatJSON<T = unknown>(request: string | ChatMessage[], schema: JSONSchema, options: RequestOptions = {}): Promise<ChatJSONResponse<T>> {
+    return this.chatService.executeJSON<T>(request, schema, options);
+  }
+
+  /**
+   * Execute a chat request and stream the response as text deltas.
+   * Fails over between candidates until one produces its first chunk;
+   * the returned provider and model identify which one is streaming.
+   * The streamed answer is priced when the stream ends: `cost` leaves it out, `finalCost` includes it.
+   * Stop reading early with break (return() on the iterator) so the provider call ends and its
+   * rate limit slot is freed; a stream never read frees its slot only after a minute.
+   */
+  async chatStream(request: string | ChatMessage[], options: RequestOptions = {}): Promise<ChatStreamResponse> {
+    return this.chatService.executeStream(request, options);
+  }
+
+  /**
+   * Query several of the selected models in parallel and combine their answers
+   * by majority vote, a judge model, or side by side. The response lists each
+   * model's answer and how much they agree.
+   */
+  async chatEnsemble(request: string | ChatMessage[], options: EnsembleOptions = {}): Promise<ChatEnsembleResponse> {
+    return this.chatService.executeEnsemble(request, options);
+  }
+
+  /**
+   * Answer with the cheapest adequate model, score the answer with a verifier
+   * (heuristic, judge model, self-consistency or a validation function) and
+   * escalate to more accurate models while the score is below the threshold.
+   * The response records every step and the combined cost.
    */
-  async chat(userRequest: string): Promise<{success: boolean, data: string}> {
-    return this.chatService.execute(userRequest);
+  async chatCascade(request: string | ChatMessage[], options: CascadeOptions = {}): Promise<ChatCascadeResponse> {
+    return this.chatService.executeCascade(request, options);
   }
 
     
@@ -288,9 +769,11 @@ interface MediaProviderData extends ProviderData {
      * @param priorityMetrics - Array of priority evaluation metrics (not used in filtering)
      * @param capability - Required capability (text, image, audio, video, embedding)
      * @param count - Maximum number of models to return (default: 10)
+     * @param requiredFeatures - Additional provider capabilities every model must support (e.g. 'tools')
+     * @param filters - Per-call provider/model restrictions, pinned model, data classification and budget estimate
      * @returns Array of filtered models ready for strategy-based selection
      */
-    getFilteredModels(relevantMetrics: string[], priorityMetrics: string[], capability: string, count: number = 10): (LLMModelData | MediaModelData)[] {
+    getFilteredModels(relevantMetrics: string[], priorityMetrics: string[], capability: string, count: number = 10, requiredFeatures: string[] = [], filters: ModelFilterOptions = {}): (LLMModelData | MediaModelData)[] {
       try {
         console.log(`[Model Selection] Starting model filtering with ${relevantMetrics.length} relevant metrics, ${priorityMetrics.length} priority metrics, and capability: ${capability}`);
         console.log(`[Model Selection] Relevant metrics: ${relevantMetrics.join(', ')}`);
@@ -301,12 +784,74 @@ interface MediaProviderData extends ProviderData {
         const apiKeyValidModels = this.getModelsWithAPIKeys();
         console.log(`[Model Selection] Found ${apiKeyValidModels.length} models with valid API keys`);
         
-        // Step 2: Metric and Capability-Based Filtering
-        const filteredModels = this.filterModelsByMetricsAndCapability(apiKeyValidModels, relevantMetrics, capability);
-        console.log(`[Model Selection] After metric and capability filtering: ${filteredModels.length} models with relevant metrics and ${capability} capability`);
+        // Step 2: Catalog Filtering - skip LLMs with no known API model ID so they never make failed calls
+        const callableModels = apiKeyValidModels.filter(model =>
+          !('price_per_1M_input_tokens' in model) || this.catalogService.hasMapping(model)
+        );
+        if (callableModels.length < apiKeyValidModels.length) {
+          console.log(`[Model Selection] Skipped ${apiKeyValidModels.length - callableModels.length} models with no API model ID mapping`);
+        }
+        
+        // Step 3: Request Overrides - allow/deny lists and pinned model
+        const permittedModels = callableModels.filter(model => {
+          const permitted = this.isModelPermitted(model, filters);
+          if (!permitted) {
+            filters.onExcluded?.({ provider: model.provider_name, model: model.name, stage: 'override', reason: 'excluded by request allow/deny list or pinned model' });
+          }
+          return permitted;
+        });
+        if (permittedModels.length < callableModels.length) {
+          console.log(`[Model Selection] Request overrides excluded ${callableModels.length - permittedModels.length} models`);
+        }
+        
+        // Step 4: Circuit Breakers - skip models whose own or provider's breaker is open
+        const healthyModels = permittedModels.filter(model => {
+          const available = this.circuitBreaker.isAvailable(model);
+          if (!available) {
+            filters.onExcluded?.({ provider: model.provider_name, model: model.name, stage: 'circuit', reason: 'circuit breaker open for the model or its provider' });
+          }
+          return available;
+        });
+        if (healthyModels.length < permittedModels.length) {
+          console.log(`[Model Selection] Open circuit breakers excluded ${permittedModels.length - healthyModels.length} models`);
+        }
+        
+        // Step 5: Data Policy Filtering - drop models whose compliance policy does not allow the data classification
+        let compliantModels = healthyModels;
+        if (filters.dataClassification) {
+          const classification = filters.dataClassification;
+          compliantModels = healthyModels.filter(model => {
+            const violations = this.policyService.check(model, classification);
+            if (violations.length > 0) {
+              filters.onExcluded?.({ provider: model.provider_name, model: model.name, stage: 'policy', reason: violations.join('; ') });
+            }
+            return violations.length === 0;
+          });
+          if (compliantModels.length < healthyModels.length) {
+            console.log(`[Model Selection] Data classification '${classification}' excluded ${healthyModels.length - compliantModels.length} models`);
+          }
+        }
+        
+        // Step 6: Metric and Capability-Based Filtering (a pinned model only needs the capability)
+        const filteredModels = this.filterModelsByMetricsAndCapability(compliantModels, relevantMetrics, [capability, ...requiredFeatures], !filters.pinnedModel);
+        console.log(`[Model Selection] After metric and capability filtering: ${filteredModels.length} models with relevant metrics and ${[capability, ...requiredFeatures].join(' + ')} capability`);
+        
+        // Step 7: Budget filtering - drop models whose estimated cost would break a cap,
+        // leaving cheaper models to fill the candidate list
+        let affordableModels = filteredModels;
+        if (filters.costEstimate && this.budgetService.isEnabled()) {
+          const { affordable, rejected } = this.budgetService.partition(filteredModels, filters.costEstimate);
+          affordableModels = affordable;
+          if (rejected.length > 0) {
+            console.log(`[Model Selection] Budget excluded ${rejected.length} models: ${rejected.map(r => `${r.model.provider_name}:${r.model.name}`).join(', ')}`);
+            for (const { model, reason } of rejected) {
+              filters.onExcluded?.({ provider: model.provider_name, model: model.name, stage: 'budget', reason: reason.message });
+            }
+          }
+        }
         
-        // Step 3: Return filtered models (selection strategy will handle ranking)
-        const topModels = filteredModels.slice(0, count);
+        // Step 8: Return filtered models (selection strategy will handle ranking)
+        const topModels = affordableModels.slice(0, count);
         console.log(`[Model Selection] Returning ${topModels.length} filtered models for strategy-based selection`);
         
         return topModels;
@@ -329,11 +874,11 @@ interface MediaProviderData extends ProviderData {
       return this.configService.isDataStale(this.lastInitialization, maxAgeHours);
     }
 
-    async ensureFreshData(maxAgeHours?: number): Promise<void> {
+    async ensureFreshData(maxAgeHours?: number, signal?: AbortSignal): Promise<void> {
       const ageToUse = maxAgeHours ?? this.configService.getMaxAge(); // Use configured default if not specified
       if (this.isDataStale(ageToUse)) {
         console.log('Data is stale, refreshing...');
-        await this.refreshData();
+        await this.refreshData(signal);
       }
     }
 
@@ -341,6 +886,46 @@ interface MediaProviderData extends ProviderData {
       return this.configService.getDataHealth(this.lastInitialization);
     }
 
+    /**
+     * Check a model against per-call allow/deny lists and pinned model
+     */
+    isModelPermitted(model: LLMModelData | MediaModelData, filters: Omit<ModelFilterOptions, 'costEstimate' | 'dataClassification' | 'onExcluded'>): boolean {
+      const provider = model.provider_name.toLowerCase();
+      if (filters.allowProviders && !filters.allowProviders.some(p => p.toLowerCase() === provider)) return false;
+      if (filters.denyProviders?.some(p => p.toLowerCase() === provider)) return false;
+      if (filters.allowModels && !filters.allowModels.some(ref => this.matchesModelReference(model, ref))) return false;
+      if (filters.denyModels?.some(ref => this.matchesModelReference(model, ref))) return false;
+      if (filters.pinnedModel && !this.matchesModelReference(model, filters.pinnedModel)) return false;
+      return true;
+    }
+
+    /**
+     * Match a model by benchmark name, provider:name, or API model ID (case-insensitive)
+     */
+    private matchesModelReference(model: LLMModelData | MediaModelData, reference: string): boolean {
+      const ref = reference.toLowerCase();
+      const apiModelId = this.catalogService.getApiModelId(model.provider_name, model.name);
+      return model.name.toLowerCase() === ref
+        || `${model.provider_name}:${model.name}`.toLowerCase() === ref
+        || apiModelId?.toLowerCase() === ref
+        || (apiModelId !== undefined && `${model.provider_name}:${apiModelId}`.toLowerCase() === ref);
+    }
+
+    /**
+     * Get provider:model keys for every known model, used to version the decision cache
+     */
+    private getModelKeys(): string[] {
+      const keys: string[] = [];
+      for (const providers of [this.llmProviders, this.mediaProviders]) {
+        for (const [providerName, providerData] of providers) {
+          for (const modelName of providerData.models.keys()) {
+            keys.push(`${providerName}:${modelName}`);
+          }
+        }
+      }
+      return keys;
+    }
+
     /**
      * Get all models from providers that have API keys configured
      */
@@ -375,16 +960,17 @@ interface MediaProviderData extends ProviderData {
     private filterModelsByMetricsAndCapability(
       models: (LLMModelData | MediaModelData)[], 
       relevantMetrics: string[], 
-      capability: string
+      capabilities: string[],
+      requireMetrics: boolean = true
     ): (LLMModelData | MediaModelData)[] {
       return models.filter(model => {
         // Must have relevant metrics
-        const hasRelevantMetrics = relevantMetrics.some(metric => 
+        const hasRelevantMetrics = !requireMetrics || relevantMetrics.some(metric => 
           model.evaluations.has(metric)
         );
         
-        // Must support the required capability
-        const hasCapability = this.modelSupportsCapability(model, capability);
+        // Must support every required capability
+        const hasCapability = capabilities.every(capability => this.modelSupportsCapability(model, capability));
         
         return hasRelevantMetrics && hasCapability;
       });
@@ -1 +1,70 @@
-export { RouterClient, type RouterClientOptions } from "./client.js";
\ No newline at end of file
+export { RouterClient, type RouterClientOptions } from "./client.js";
+export {
+  RouterError,
+  AuthenticationError,
+  RateLimitError,
+  QueueTimeoutError,
+  QuotaExceededError,
+  ContextLengthExceededError,
+  ContentFilteredError,
+  ModelNotFoundError,
+  InvalidRequestError,
+  TimeoutError,
+  ServerError,
+  NetworkError,
+  AbortedError,
+  type RouterErrorCode,
+} from "./providers/errors.js";
+export type {
+  ChatRole,
+  ChatMessage,
+  ToolDefinition,
+  ToolCall,
+  ResponseFormat,
+  GenerationOptions,
+  TokenUsage,
+} from "./providers/base.js";
+export type {
+  ChatOptions,
+  RequestOptions,
+  RoutingOptions,
+  ChatResponse,
+  ChatResponseMetadata,
+  ChatJSONResponse,
+  ChatStreamResponse,
+  ChatTiming,
+  ChatCost,
+  ModelAttempt,
+  RoutingRefusal,
+  EnsembleMode,
+  EnsembleOptions,
+  EnsembleMemberResponse,
+  ChatEnsembleResponse,
+  CascadeOptions,
+  CascadeStep,
+  ChatCascadeResponse,
+} from "./services/ChatService.js";
+export {
+  BudgetExceededError,
+  type BudgetConfig,
+  type BudgetLimits,
+  type BudgetStatus,
+  type BudgetScope,
+  type BudgetPeriod,
+} from "./services/BudgetService.js";
+export type {
+  SpendEntry,
+  SpendFilter,
+  SpendSummary,
+  SpendWindow,
+  SpendInterval,
+  SpendPurpose,
+} from "./services/CostTrackingService.js";
+export type { SelectionStrategy, SelectionContext, CandidateModel } from "./strategies/base.js";
+export type { ModelScore, ScoringWeights } from "./strategies/scoring.js";
+export { DeadlineUnreachableError } from "./services/LatencyService.js";
+export {
+  PolicyViolationError,
+  type ComplianceConfig,
+  type DataClassificationRule,
+} from "./services/CompliancePolicyService.js";
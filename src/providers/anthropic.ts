@@ -1,5 +1,30 @@
-import type { BaseProvider, ProviderResult, ProviderError } from './base.js';
+import type { BaseProvider, ChatMessage, ProviderRequestOptions, ProviderResult, ToolCall, ToolDefinition } from './base.js';
+import { failedResult, parseRateLimitHeaders, splitSystemMessages, toTokenUsage } from './base.js';
+import { clampGenerationOptions, getModelLimits } from './limits.js';
 import Anthropic from '@anthropic-ai/sdk';
+import type { RouterErrorCode } from './errors.js';
+
+/**
+ * Map Anthropic SDK errors, using the error type from the response body.
+ */
+function mapAnthropicError(error: unknown): RouterErrorCode | undefined {
+    if (error instanceof Anthropic.APIUserAbortError) return 'aborted';
+    if (error instanceof Anthropic.APIConnectionTimeoutError) return 'timeout';
+    if (error instanceof Anthropic.APIConnectionError) return 'network';
+    if (!(error instanceof Anthropic.APIError)) return undefined;
+    // The response body: { type: 'error', error: { type, message } }
+    const body = error.error as { error?: { type?: string } } | undefined;
+    switch (body?.error?.type) {
+        case 'authentication_error':
+        case 'permission_error': return 'auth';
+        case 'not_found_error': return 'model_not_found';
+        case 'rate_limit_error': return 'rate_limit';
+        case 'request_too_large': return 'context_length_exceeded';
+        case 'overloaded_error':
+        case 'api_error': return 'server';
+    }
+    return undefined;
+}
 
 export class AnthropicProvider implements BaseProvider {
     private apiKey: string;
@@ -12,25 +37,150 @@ export class AnthropicProvider implements BaseProvider {
         });
     }
 
-    async sendMessage(model: string, message: string): Promise<ProviderResult<string>> {
+    async sendMessage(model: string, messages: ChatMessage[], options: ProviderRequestOptions = {}): Promise<ProviderResult<string>> {
         try {
-            const response = await this.client.messages.create({
-                model: model,
-                messages: [{role: 'user', content: message}],
-            });
+            const { data: response, response: raw } = await this.client.messages
+                .create(this.buildRequest(model, messages, options), this.buildRequestOptions(options))
+                .withResponse();
+            const usage = toTokenUsage(response.usage?.input_tokens, response.usage?.output_tokens);
+            const rateLimit = parseRateLimitHeaders(raw.headers);
+            // Structured output arrives as the input of the forced output tool
+            const outputTool = this.getStructuredOutputTool(options);
+            const structured = outputTool
+                ? response.content.find((block: any) => block.type === 'tool_use' && block.name === outputTool.name)
+                : undefined;
+            if (structured) {
+                return {
+                    success: true,
+                    data: JSON.stringify(structured.input ?? {}),
+                    provider: 'anthropic',
+                    model: model,
+                    ...(usage ? { usage } : {}),
+                    ...(rateLimit ? { rateLimit } : {}),
+                };
+            }
+
+            // Responses are a list of content blocks: text and tool_use
+            const text = response.content
+                .filter((block: any) => block.type === 'text')
+                .map((block: any) => block.text)
+                .join('');
+            const toolCalls: ToolCall[] = response.content
+                .filter((block: any) => block.type === 'tool_use')
+                .map((block: any) => ({ id: block.id, name: block.name, arguments: block.input ?? {} }));
             return {
                 success: true,
-                data: response.content[0].text,
+                data: text,
                 provider: 'anthropic',
                 model: model,
+                ...(toolCalls.length > 0 ? { toolCalls } : {}),
+                ...(usage ? { usage } : {}),
+                ...(rateLimit ? { rateLimit } : {}),
             };
         } catch (error) {
+            return failedResult(error, 'anthropic', model, mapAnthropicError);
+        }
+    }
+
+    async streamMessage(model: string, messages: ChatMessage[], options: ProviderRequestOptions = {}): Promise<ProviderResult<AsyncIterable<string>>> {
+        try {
+            const { data: stream, response: raw } = await this.client.messages.create({
+                ...this.buildRequest(model, messages, options),
+                stream: true,
+            }, this.buildRequestOptions(options)).withResponse();
+            const rateLimit = parseRateLimitHeaders(raw.headers);
             return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error',
+                success: true,
+                data: this.readTextDeltas(stream),
                 provider: 'anthropic',
                 model: model,
+                ...(rateLimit ? { rateLimit } : {}),
             };
+        } catch (error) {
+            return failedResult(error, 'anthropic', model, mapAnthropicError);
+        }
+    }
+
+    /**
+     * Build SDK per-call options (abort signal).
+     */
+    private buildRequestOptions(options: ProviderRequestOptions): { signal?: AbortSignal } {
+        return options.signal ? { signal: options.signal } : {};
+    }
+
+    /**
+     * Build Messages API request parameters.
+     * Anthropic takes the system prompt as a top-level field, not a message,
+     * and carries tool calls and results as content blocks. max_tokens is required.
+     */
+    private buildRequest(model: string, messages: ChatMessage[], options: ProviderRequestOptions): Record<string, any> {
+        const { system, messages: turns } = splitSystemMessages(messages);
+        const outputTool = this.getStructuredOutputTool(options);
+        const generation = clampGenerationOptions('anthropic', model, options.generation);
+        return {
+            model: model,
+            max_tokens: generation.maxTokens ?? getModelLimits('anthropic', model).defaultMaxTokens,
+            ...(generation.temperature !== undefined ? { temperature: generation.temperature } : {}),
+            ...(generation.topP !== undefined ? { top_p: generation.topP } : {}),
+            ...(generation.stop ? { stop_sequences: generation.stop } : {}),
+            messages: turns.map(m => {
+                if (m.role === 'tool') {
+                    return {
+                        role: 'user',
+                        content: [{ type: 'tool_result', tool_use_id: m.toolCallId, content: m.content }],
+                    };
+                }
+                if (m.role === 'assistant' && m.toolCalls?.length) {
+                    return {
+                        role: 'assistant',
+                        content: [
+                            ...(m.content ? [{ type: 'text', text: m.content }] : []),
+                            ...m.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments })),
+                        ],
+                    };
+                }
+                return { role: m.role, content: m.content };
+            }),
+            ...(system !== undefined ? { system } : {}),
+            ...(options.tools?.length ? {
+                tools: options.tools.map(tool => ({
+                    name: tool.name,
+                    description: tool.description,
+                    input_schema: tool.parameters,
+                })),
+            } : {}),
+            ...(outputTool ? {
+                tools: [{ name: outputTool.name, description: outputTool.description, input_schema: outputTool.parameters }],
+                tool_choice: { type: 'tool', name: outputTool.name },
+            } : {}),
+        };
+    }
+
+    /**
+     * Anthropic has no JSON mode; structured output is produced by forcing a
+     * single tool whose input schema is the requested schema. Tool inputs must be
+     * objects, so other schemas fall back to prompt instructions.
+     */
+    private getStructuredOutputTool(options: ProviderRequestOptions): ToolDefinition | undefined {
+        const schema = options.responseFormat?.schema;
+        if (!schema || schema.type !== 'object' || options.tools?.length) {
+            return undefined;
+        }
+        return {
+            name: options.responseFormat?.name || 'structured_output',
+            description: 'Return the response as structured data.',
+            parameters: schema,
+        };
+    }
+
+    /**
+     * Extract text deltas from Anthropic's server-sent event stream.
+     */
+    private async *readTextDeltas(stream: AsyncIterable<any>): AsyncIterable<string> {
+        for await (const event of stream) {
+            if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+                yield event.delta.text;
+            }
         }
     }
 
@@ -39,6 +189,6 @@ export class AnthropicProvider implements BaseProvider {
     }
 
     getCapabilities(): string[] {
-        return ['text'];
+        return ['text', 'tools'];
     }
-}
\ No newline at end of file
+}
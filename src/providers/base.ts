@@ -1,15 +1,108 @@
+import { toRouterError } from './errors.js';
+import type { RouterError, SdkErrorMapper } from './errors.js';
+
+/**
+ * Role of a single turn in a conversation.
+ * 'tool' turns carry the result of a tool call back to the model.
+ */
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+/**
+ * A single conversation turn in provider-neutral form.
+ * Providers map these to their native message format.
+ */
+export interface ChatMessage {
+    role: ChatRole;
+    content: string;
+    toolCalls?: ToolCall[]; // Tool calls requested by an assistant turn
+    toolCallId?: string; // For tool turns: id of the call this result answers
+}
+
+/**
+ * Provider-neutral tool definition.
+ * `parameters` is a JSON Schema object describing the tool's arguments.
+ */
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+}
+
+/**
+ * A tool call requested by the model, normalized across providers.
+ */
+export interface ToolCall {
+    id: string;
+    name: string;
+    arguments: Record<string, unknown>;
+}
+
+/**
+ * Requested output format.
+ * Providers use their native JSON or structured-output mode where one exists;
+ * the router still validates the result against the schema.
+ */
+export interface ResponseFormat {
+    type: 'json';
+    schema?: Record<string, unknown>; // JSON Schema the output must match
+    name?: string; // Schema name, required by some structured-output APIs
+}
+
+/**
+ * Sampling and length parameters for a single generation.
+ * Providers map these to their own parameter names and clamp them to model limits.
+ */
+export interface GenerationOptions {
+    temperature?: number;
+    maxTokens?: number; // Maximum output tokens
+    stop?: string[]; // Stop sequences
+    topP?: number;
+    seed?: number;
+}
+
+/**
+ * Token usage for a single call, normalized from each SDK's usage fields.
+ */
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+}
+
+/**
+ * Per-request options passed through to a provider.
+ */
+export interface ProviderRequestOptions {
+    tools?: ToolDefinition[];
+    responseFormat?: ResponseFormat;
+    generation?: GenerationOptions;
+    signal?: AbortSignal; // Cancels the in-flight call (e.g. when a hedged request is won by another model)
+}
+
 /**
  * Base interface that all AI providers must implement.
  * Provides a consistent interface for different AI service providers.
  */
 export interface BaseProvider {
     /**
-     * Send a text message to a specific model and get a response.
+     * Send a conversation to a specific model and get a response.
      * @param model - The model name to use (e.g., "gpt-4", "claude-3")
-     * @param message - The text message to send
+     * @param messages - The conversation history, oldest turn first
+     * @param options - Per-request options such as tool definitions and generation parameters
      * @returns Promise resolving to result object with success status and data/error
      */
-    sendMessage(model: string, message: string): Promise<ProviderResult<string>>;
+    sendMessage(model: string, messages: ChatMessage[], options?: ProviderRequestOptions): Promise<ProviderResult<string>>;
+
+    /**
+     * Stream a conversation response from a specific model as text deltas.
+     * The upstream request is opened before resolving, so connection and auth
+     * errors surface in the result rather than while iterating.
+     * @param model - The model name to use
+     * @param messages - The conversation history, oldest turn first
+     * @param options - Per-request options such as generation parameters
+     * @returns Promise resolving to result object wrapping an async iterable of text deltas
+     */
+    streamMessage(model: string, messages: ChatMessage[], options?: ProviderRequestOptions): Promise<ProviderResult<AsyncIterable<string>>>;
   
     /**
      * Check if this provider is available and ready to use.
@@ -34,67 +127,189 @@ export interface BaseProvider {
     error?: string;
     provider?: string;
     model?: string;
-    retryCount?: number;
+    retryCount?: number; // Retries made after transient failures
+    status?: number; // HTTP status of a failed call, when the SDK reported one
+    failure?: RouterError; // Normalized cause of a failed call
+    rateLimit?: RateLimitInfo; // Rate limit state reported in the response headers
+    toolCalls?: ToolCall[]; // Tool calls requested by the model, if any
+    usage?: TokenUsage; // Token usage reported by the provider, if any
   }
   
   /**
-   * Custom error class for provider-related errors (kept for internal use).
+   * Compliance metadata for a provider or model, matched against data classification rules.
+   * Defaults reflect each vendor's standard API terms; override them to match your contracts.
    */
-  export class ProviderError extends Error {
-    constructor(
-      message: string,
-      public provider: string,
-      public model?: string,
-      public originalError?: Error
-    ) {
-      super(message);
-      this.name = 'ProviderError';
-    }
+  export interface CompliancePolicy {
+    regions: readonly string[]; // Where requests are processed (e.g. 'us', 'eu')
+    zeroDataRetention: boolean; // Prompts and outputs are not stored
+    trainingOptOut: boolean; // API data is not used for training
+    certifications: readonly string[]; // e.g. 'SOC2', 'ISO27001', 'HIPAA'
   }
-  
+
   // Provider configuration mapping - all providers
   export const PROVIDER_CONFIGS = {
     'openai': {
       baseURL: 'https://api.openai.com',
-      name: 'OpenAI'
+      name: 'OpenAI',
+      policy: { regions: ['us'], zeroDataRetention: false, trainingOptOut: true, certifications: ['SOC2', 'ISO27001'] }
     },
     'xai': {
       baseURL: 'https://api.x.ai',
-      name: 'X AI'
+      name: 'X AI',
+      policy: { regions: ['us'], zeroDataRetention: false, trainingOptOut: true, certifications: ['SOC2'] }
     },
     'deepseek': {
       baseURL: 'https://api.deepseek.com',
-      name: 'DeepSeek'
+      name: 'DeepSeek',
+      policy: { regions: ['cn'], zeroDataRetention: false, trainingOptOut: false, certifications: [] }
     },
     'meta-llama': {
       baseURL: 'https://api.together.xyz',
-      name: 'Meta (via Together AI)'
+      name: 'Meta (via Together AI)',
+      policy: { regions: ['us'], zeroDataRetention: false, trainingOptOut: true, certifications: ['SOC2'] }
     },
     'meta-llama-groq': {
       baseURL: 'https://api.groq.com',
-      name: 'Meta (via Groq)'
+      name: 'Meta (via Groq)',
+      policy: { regions: ['us'], zeroDataRetention: false, trainingOptOut: true, certifications: ['SOC2'] }
     },
     'anthropic': {
       baseURL: 'https://api.anthropic.com',
-      name: 'Anthropic'
+      name: 'Anthropic',
+      policy: { regions: ['us'], zeroDataRetention: false, trainingOptOut: true, certifications: ['SOC2', 'ISO27001'] }
     },
     'cohere': {
       baseURL: 'https://api.cohere.com',
-      name: 'Cohere'
+      name: 'Cohere',
+      policy: { regions: ['us', 'ca'], zeroDataRetention: false, trainingOptOut: true, certifications: ['SOC2', 'ISO27001'] }
     }
-  } as const;
+  } as const satisfies Record<string, { baseURL: string; name: string; policy: CompliancePolicy }>;
   
   export type ProviderName = keyof typeof PROVIDER_CONFIGS;
 
+  /**
+   * Normalize a plain string or message array into a message array.
+   */
+  export function toChatMessages(input: string | ChatMessage[]): ChatMessage[] {
+    return typeof input === 'string' ? [{ role: 'user', content: input }] : input;
+  }
+
+  /**
+   * Build a TokenUsage from SDK token counts.
+   * @returns undefined when the SDK reported no usage at all
+   */
+  export function toTokenUsage(inputTokens?: number | null, outputTokens?: number | null): TokenUsage | undefined {
+    if (inputTokens == null && outputTokens == null) {
+      return undefined;
+    }
+    const input = inputTokens ?? 0;
+    const output = outputTokens ?? 0;
+    return { inputTokens: input, outputTokens: output, totalTokens: input + output };
+  }
+
+  /**
+   * Add two usage records together, treating missing usage as zero
+   */
+  export function addTokenUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+    if (!a) return b;
+    if (!b) return a;
+    return {
+      inputTokens: a.inputTokens + b.inputTokens,
+      outputTokens: a.outputTokens + b.outputTokens,
+      totalTokens: a.totalTokens + b.totalTokens,
+    };
+  }
+
+  /**
+   * Rate limit state reported by a provider's response headers.
+   * Limits are per minute; fields the provider did not send are left unset.
+   */
+  export interface RateLimitInfo {
+    limitRequests?: number;
+    remainingRequests?: number;
+    limitTokens?: number;
+    remainingTokens?: number;
+    retryAfterMs?: number; // Sent with 429 responses
+  }
+
+  /**
+   * Read rate limit headers in the OpenAI (x-ratelimit-*), Anthropic (anthropic-ratelimit-*)
+   * and Cohere trial key (x-trial-endpoint-call-*) conventions.
+   * Cohere production keys send no rate limit headers; their limits come from configuration only.
+   * @returns undefined when no rate limit headers are present
+   */
+  export function parseRateLimitHeaders(headers: unknown): RateLimitInfo | undefined {
+    if (!headers || typeof headers !== 'object') return undefined;
+    const source = headers as { get?: (name: string) => string | null } & Record<string, unknown>;
+    const read = (name: string): number | undefined => {
+      const raw = typeof source.get === 'function' ? source.get(name) : source[name];
+      const value = typeof raw === 'string' ? Number(raw) : NaN;
+      return Number.isFinite(value) ? value : undefined;
+    };
+    const pick = (...names: string[]) => names.map(read).find(value => value !== undefined);
+
+    const retryAfterMs = read('retry-after-ms') ?? (read('retry-after') !== undefined ? read('retry-after')! * 1000 : undefined);
+    const info: RateLimitInfo = {};
+    const fields: [keyof RateLimitInfo, number | undefined][] = [
+      ['limitRequests', pick('x-ratelimit-limit-requests', 'anthropic-ratelimit-requests-limit', 'x-trial-endpoint-call-limit')],
+      ['remainingRequests', pick('x-ratelimit-remaining-requests', 'anthropic-ratelimit-requests-remaining', 'x-trial-endpoint-call-remaining')],
+      ['limitTokens', pick('x-ratelimit-limit-tokens', 'anthropic-ratelimit-tokens-limit')],
+      ['remainingTokens', pick('x-ratelimit-remaining-tokens', 'anthropic-ratelimit-tokens-remaining')],
+      ['retryAfterMs', retryAfterMs],
+    ];
+    for (const [field, value] of fields) {
+      if (value !== undefined) info[field] = value;
+    }
+    return Object.keys(info).length > 0 ? info : undefined;
+  }
+
+  /**
+   * Build the failed result for an SDK error, normalized to a RouterError.
+   * @param mapError - The provider's SDK-specific error mapping
+   */
+  export function failedResult(error: unknown, provider: string, model: string, mapError?: SdkErrorMapper): ProviderResult<never> {
+    const failure = toRouterError(error, provider, model, mapError);
+    // SDKs built on fetch attach the response headers to HTTP errors (Cohere's on its raw response)
+    const source = error as { headers?: unknown; rawResponse?: { headers?: unknown } } | null;
+    const rateLimit = parseRateLimitHeaders(source?.headers ?? source?.rawResponse?.headers);
+    return {
+      success: false,
+      error: failure.message,
+      ...(failure.status !== undefined ? { status: failure.status } : {}),
+      failure,
+      ...(rateLimit ? { rateLimit } : {}),
+      provider,
+      model,
+    };
+  }
+
+  /**
+   * Parse tool call arguments, which SDKs return as a JSON string or an object.
+   */
+  export function parseToolArguments(raw: unknown): Record<string, unknown> {
+    if (typeof raw === 'string') {
+      if (raw.trim() === '') return {};
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    }
+    return raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  }
+
+  /**
+   * Split system turns from the rest of the conversation.
+   * Used by providers that take the system prompt as a separate field.
+   */
+  export function splitSystemMessages(messages: ChatMessage[]): { system: string | undefined; messages: ChatMessage[] } {
+    const systemParts = messages.filter(m => m.role === 'system').map(m => m.content);
+    return {
+      system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+      messages: messages.filter(m => m.role !== 'system'),
+    };
+  }
+
   // TODO: Future additions for enhanced functionality
   // - sendEmbedding(model: string, text: string): Promise<ProviderResult<number[]>>
   // - generateImage(model: string, prompt: string): Promise<ProviderResult<string>>
   // - transcribeAudio(model: string, audioData: Buffer): Promise<ProviderResult<string>>
   // - generateAudio(model: string, text: string): Promise<ProviderResult<string>>
   // - generateVideo(model: string, text: string): Promise<ProviderResult<string>>
-  // - streamMessage(model: string, message: string): Promise<ProviderResult<ReadableStream>>
-  
-  // TODO: Implement retry mechanisms
-  // - Exponential backoff for failed requests
-  // - Retry only on specific error types (network, rate limits)
-  
\ No newline at end of file
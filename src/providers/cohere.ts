@@ -1,5 +1,20 @@
-import type { BaseProvider, ProviderResult, ProviderError } from './base.js';
-import { CohereClientV2 } from "cohere-ai";
+import type { BaseProvider, ChatMessage, ProviderRequestOptions, ProviderResult, ToolCall } from './base.js';
+import { failedResult, parseRateLimitHeaders, parseToolArguments, toTokenUsage } from './base.js';
+import { clampGenerationOptions } from './limits.js';
+import { CohereClientV2, CohereError, CohereTimeoutError } from "cohere-ai";
+import type { Cohere } from "cohere-ai";
+import type { RouterErrorCode } from './errors.js';
+
+/**
+ * Map Cohere SDK errors. Cohere reports a trial key's used-up monthly allowance as 429,
+ * which the generic rules would treat as a rate limit. The per-minute trial limit
+ * ("limited to N API calls / minute") is left to them, so it is retried.
+ */
+function mapCohereError(error: unknown): RouterErrorCode | undefined {
+    if (error instanceof CohereTimeoutError) return 'timeout';
+    if (error instanceof CohereError && /\/ ?month|per month|monthly/i.test(error.message)) return 'quota';
+    return undefined;
+}
 
 export class CohereProvider implements BaseProvider {
     private apiKey: string;
@@ -12,13 +27,20 @@ export class CohereProvider implements BaseProvider {
         });
     }
 
-    async sendMessage(model: string, message: string): Promise<ProviderResult<string>> {
+    async sendMessage(model: string, messages: ChatMessage[], options: ProviderRequestOptions = {}): Promise<ProviderResult<string>> {
         try {
-            const response = await this.client.chat({
-                model: model,
-                messages: [{role: 'user', content: message}],
-
-            });
+            const { data: response, rawResponse } = await this.client
+                .chat(this.buildRequest(model, messages, options), this.buildRequestOptions(options))
+                .withRawResponse();
+            const rateLimit = parseRateLimitHeaders(rawResponse.headers);
+            const toolCalls: ToolCall[] = (response.message.toolCalls || []).map(call => ({
+                id: call.id || '',
+                name: call.function?.name || '',
+                arguments: parseToolArguments(call.function?.arguments),
+            }));
+            // Prefer billed units, which is what Cohere charges for
+            const tokens = response.usage?.billedUnits ?? response.usage?.tokens;
+            const usage = toTokenUsage(tokens?.inputTokens, tokens?.outputTokens);
             return {
                 success: true,
                 data: typeof response.message.content === 'string' 
@@ -26,14 +48,94 @@ export class CohereProvider implements BaseProvider {
                     : (response.message.content as any)?.[0]?.text || '',
                 provider: 'cohere',
                 model: model,
+                ...(toolCalls.length > 0 ? { toolCalls } : {}),
+                ...(usage ? { usage } : {}),
+                ...(rateLimit ? { rateLimit } : {}),
             }
         } catch (error) {
+            return failedResult(error, 'cohere', model, mapCohereError);
+        }
+    }
+
+    async streamMessage(model: string, messages: ChatMessage[], options: ProviderRequestOptions = {}): Promise<ProviderResult<AsyncIterable<string>>> {
+        try {
+            const { data: stream, rawResponse } = await this.client
+                .chatStream(this.buildRequest(model, messages, options), this.buildRequestOptions(options))
+                .withRawResponse();
+            const rateLimit = parseRateLimitHeaders(rawResponse.headers);
             return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error',
+                success: true,
+                data: this.readTextDeltas(stream),
                 provider: 'cohere',
                 model: model,
+                ...(rateLimit ? { rateLimit } : {}),
             };
+        } catch (error) {
+            return failedResult(error, 'cohere', model, mapCohereError);
+        }
+    }
+
+    /**
+     * Build SDK per-call options (abort signal).
+     */
+    private buildRequestOptions(options: ProviderRequestOptions): { abortSignal?: AbortSignal } {
+        return options.signal ? { abortSignal: options.signal } : {};
+    }
+
+    /**
+     * Build v2 chat request parameters.
+     * Cohere uses camelCase tool fields and a dedicated 'tool' role for results.
+     */
+    private buildRequest(model: string, messages: ChatMessage[], options: ProviderRequestOptions): Cohere.V2ChatRequest {
+        const generation = clampGenerationOptions('cohere', model, options.generation);
+        return {
+            model: model,
+            ...(generation.temperature !== undefined ? { temperature: generation.temperature } : {}),
+            ...(generation.topP !== undefined ? { p: generation.topP } : {}),
+            ...(generation.maxTokens !== undefined ? { maxTokens: generation.maxTokens } : {}),
+            ...(generation.stop ? { stopSequences: generation.stop } : {}),
+            ...(generation.seed !== undefined ? { seed: generation.seed } : {}),
+            messages: messages.map((m): Cohere.ChatMessageV2 => {
+                if (m.role === 'tool') {
+                    return { role: 'tool', toolCallId: m.toolCallId || '', content: m.content };
+                }
+                if (m.role === 'assistant' && m.toolCalls?.length) {
+                    return {
+                        role: 'assistant',
+                        ...(m.content ? { toolPlan: m.content } : {}),
+                        toolCalls: m.toolCalls.map(call => ({
+                            id: call.id,
+                            type: 'function',
+                            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+                        })),
+                    };
+                }
+                return { role: m.role, content: m.content };
+            }),
+            ...(options.tools?.length ? {
+                tools: options.tools.map(tool => ({
+                    type: 'function' as const,
+                    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+                })),
+            } : {}),
+            ...(options.responseFormat ? {
+                responseFormat: {
+                    type: 'json_object' as const,
+                    ...(options.responseFormat.schema ? { jsonSchema: options.responseFormat.schema } : {}),
+                },
+            } : {}),
+        };
+    }
+
+    /**
+     * Extract text deltas from Cohere's v2 chat stream events.
+     */
+    private async *readTextDeltas(stream: AsyncIterable<any>): AsyncIterable<string> {
+        for await (const event of stream) {
+            const text = event.type === 'content-delta' ? event.delta?.message?.content?.text : undefined;
+            if (text) {
+                yield text;
+            }
         }
     }
 
@@ -42,6 +144,6 @@ export class CohereProvider implements BaseProvider {
     }
 
     getCapabilities(): string[] {
-        return ['text'];
+        return ['text', 'tools'];
     }   
 }
\ No newline at end of file
@@ -0,0 +1,239 @@
+/**
+ * Normalized cause of a failed provider call, shared by every provider SDK.
+ */
+export type RouterErrorCode =
+  | 'auth' // Missing, invalid or unauthorized API key
+  | 'rate_limit' // Too many requests; clears by waiting
+  | 'quota' // Credits or billing quota exhausted; does not clear by waiting
+  | 'context_length_exceeded' // Prompt plus output does not fit the model's context window
+  | 'content_filtered' // Refused by the provider's safety or content policy
+  | 'model_not_found' // Model does not exist or the key cannot access it
+  | 'invalid_request' // Any other request the provider rejected as malformed
+  | 'timeout'
+  | 'server' // 5xx or overloaded
+  | 'network' // Connection failed before a response arrived
+  | 'aborted' // Cancelled by the caller's abort signal
+  | 'unknown';
+
+export interface RouterErrorDetails {
+  status?: number; // HTTP status, when the SDK reported one
+  provider?: string;
+  model?: string;
+  originalError?: unknown; // The SDK's own error object
+}
+
+/**
+ * Base class for normalized provider errors. Check `code`, or use instanceof
+ * against the subclasses below.
+ */
+export class RouterError extends Error {
+  readonly code: RouterErrorCode;
+  readonly status?: number;
+  readonly provider?: string;
+  readonly model?: string;
+  readonly originalError?: unknown;
+
+  constructor(code: RouterErrorCode, message: string, details: RouterErrorDetails = {}) {
+    super(message);
+    this.name = 'RouterError';
+    this.code = code;
+    if (details.status !== undefined) this.status = details.status;
+    if (details.provider !== undefined) this.provider = details.provider;
+    if (details.model !== undefined) this.model = details.model;
+    if (details.originalError !== undefined) this.originalError = details.originalError;
+  }
+
+  /**
+   * Transient: the same call may succeed if repeated after a wait
+   */
+  get retryable(): boolean {
+    return this.code === 'rate_limit' || this.code === 'timeout' || this.code === 'server' || this.code === 'network';
+  }
+
+  /**
+   * The model cannot serve any request until something changes outside the router (key, billing, catalog)
+   */
+  get permanent(): boolean {
+    return this.code === 'auth' || this.code === 'quota' || this.code === 'model_not_found';
+  }
+
+  /**
+   * Caused by this request rather than the model's health; another model may still accept it
+   */
+  get requestSpecific(): boolean {
+    return this.code === 'context_length_exceeded' || this.code === 'content_filtered' || this.code === 'invalid_request' || this.code === 'aborted';
+  }
+}
+
+export class AuthenticationError extends RouterError {
+  constructor(message: string, details: RouterErrorDetails = {}) {
+    super('auth', message, details);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class RateLimitError extends RouterError {
+  constructor(message: string, details: RouterErrorDetails = {}) {
+    super('rate_limit', message, details);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * A call waited longer than the configured maximum for client-side rate limit capacity.
+ * It never reached the provider, so the router fails over without retrying or penalizing the model.
+ */
+export class QueueTimeoutError extends RateLimitError {
+  constructor(message: string, details: RouterErrorDetails = {}) {
+    super(message, details);
+    this.name = 'QueueTimeoutError';
+  }
+}
+
+export class QuotaExceededError extends RouterError {
+  constructor(message: string, details: RouterErrorDetails = {}) {
+    super('quota', message, details);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class ContextLengthExceededError extends RouterError {
+  constructor(message: string, details: RouterErrorDetails = {}) {
+    super('context_length_exceeded', message, details);
+    this.name = 'ContextLengthExceededError';
+  }
+}
+
+export class ContentFilteredError extends RouterError {
+  constructor(message: string, details: RouterErrorDetails = {}) {
+    super('content_filtered', message, details);
+    this.name = 'ContentFilteredError';
+  }
+}
+
+export class ModelNotFoundError extends RouterError {
+  constructor(message: string, details: RouterErrorDetails = {}) {
+    super('model_not_found', message, details);
+    this.name = 'ModelNotFoundError';
+  }
+}
+
+export class InvalidRequestError extends RouterError {
+  constructor(message: string, details: RouterErrorDetails = {}) {
+    super('invalid_request', message, details);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+export class TimeoutError extends RouterError {
+  constructor(message: string, details: RouterErrorDetails = {}) {
+    super('timeout', message, details);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class ServerError extends RouterError {
+  constructor(message: string, details: RouterErrorDetails = {}) {
+    super('server', message, details);
+    this.name = 'ServerError';
+  }
+}
+
+export class NetworkError extends RouterError {
+  constructor(message: string, details: RouterErrorDetails = {}) {
+    super('network', message, details);
+    this.name = 'NetworkError';
+  }
+}
+
+export class AbortedError extends RouterError {
+  constructor(message: string, details: RouterErrorDetails = {}) {
+    super('aborted', message, details);
+    this.name = 'AbortedError';
+  }
+}
+
+const ERROR_CLASSES: Record<Exclude<RouterErrorCode, 'unknown'>, new (message: string, details?: RouterErrorDetails) => RouterError> = {
+  auth: AuthenticationError,
+  rate_limit: RateLimitError,
+  quota: QuotaExceededError,
+  context_length_exceeded: ContextLengthExceededError,
+  content_filtered: ContentFilteredError,
+  model_not_found: ModelNotFoundError,
+  invalid_request: InvalidRequestError,
+  timeout: TimeoutError,
+  server: ServerError,
+  network: NetworkError,
+  aborted: AbortedError,
+};
+
+/**
+ * Provider-specific mapping from an SDK error to a code.
+ * Returns undefined to fall back to the generic status and message rules.
+ */
+export type SdkErrorMapper = (error: unknown) => RouterErrorCode | undefined;
+
+/**
+ * Create the RouterError subclass for a code
+ */
+export function createRouterError(code: RouterErrorCode, message: string, details: RouterErrorDetails = {}): RouterError {
+  return code === 'unknown' ? new RouterError(code, message, details) : new ERROR_CLASSES[code](message, details);
+}
+
+/**
+ * Normalize anything a provider SDK throws into a RouterError
+ * @param mapError - The provider's own SDK error mapping, tried before the generic rules
+ */
+export function toRouterError(error: unknown, provider: string, model: string, mapError?: SdkErrorMapper): RouterError {
+  if (error instanceof RouterError) return error;
+
+  const source = error as { status?: unknown; statusCode?: unknown; name?: unknown } | null;
+  const rawStatus = source?.status ?? source?.statusCode;
+  const status = typeof rawStatus === 'number' ? rawStatus : undefined;
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error';
+
+  const code = mapError?.(error)
+    ?? (source?.name === 'AbortError' ? 'aborted' : undefined)
+    ?? codeFromMessage(message)
+    ?? codeFromStatus(status)
+    ?? 'unknown';
+
+  return createRouterError(code, message, {
+    ...(status !== undefined ? { status } : {}),
+    provider,
+    model,
+    originalError: error,
+  });
+}
+
+/**
+ * Codes recognizable from the message alone. Checked before the status, since
+ * quota, context length and content policy errors share 400/403/429 with others.
+ */
+function codeFromMessage(message: string): RouterErrorCode | undefined {
+  const text = message.toLowerCase();
+  if (/insufficient_quota|exceeded your current quota|quota exceeded|billing|credit balance/.test(text)) return 'quota';
+  if (/context.?length|context window|maximum context|prompt is too long|too many tokens|input is too long|reduce the length/.test(text)) return 'context_length_exceeded';
+  if (/content.?filter|content.?policy|safety (system|settings|filter)|flagged|responsible ai/.test(text)) return 'content_filtered';
+  if (/model_not_found|model .*(not found|does not exist)|unknown model|no such model/.test(text)) return 'model_not_found';
+  if (/invalid.?api.?key|incorrect api key|api key not valid|unauthorized|authentication|permission.?denied|access.?denied/.test(text)) return 'auth';
+  if (/rate.?limit|too many requests/.test(text)) return 'rate_limit';
+  if (/timed? ?out|etimedout|deadline exceeded/.test(text)) return 'timeout';
+  if (/econnreset|econnrefused|enotfound|eai_again|socket hang up|fetch failed|network|connection error/.test(text)) return 'network';
+  if (/overloaded|service unavailable|internal server error/.test(text)) return 'server';
+  if (/aborted|cancelled|canceled/.test(text)) return 'aborted';
+  return undefined;
+}
+
+function codeFromStatus(status: number | undefined): RouterErrorCode | undefined {
+  if (status === undefined) return undefined;
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 402) return 'quota';
+  if (status === 404) return 'model_not_found';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 413) return 'context_length_exceeded';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'invalid_request';
+  return undefined;
+}
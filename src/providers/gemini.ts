@@ -1,5 +1,39 @@
-import type { BaseProvider, ProviderResult, ProviderError } from './base.js';
-import { GoogleGenAI } from "@google/genai";
+import type { BaseProvider, ChatMessage, ProviderRequestOptions, ProviderResult, ToolCall } from './base.js';
+import { failedResult, splitSystemMessages, toTokenUsage } from './base.js';
+import { clampGenerationOptions } from './limits.js';
+import { ApiError, GoogleGenAI } from "@google/genai";
+import { ContentFilteredError } from './errors.js';
+import type { RouterErrorCode } from './errors.js';
+
+/**
+ * Map Gemini API errors, whose messages embed the Google RPC status. An invalid
+ * API key comes back as 400 INVALID_ARGUMENT, so it is recognized by its reason.
+ */
+function mapGeminiError(error: unknown): RouterErrorCode | undefined {
+    if (!(error instanceof ApiError)) return undefined;
+    if (/API_KEY_INVALID|API key not valid/.test(error.message)) return 'auth';
+    const rpcStatus = /"status":\s*"([A-Z_]+)"/.exec(error.message)?.[1];
+    switch (rpcStatus) {
+        case 'UNAUTHENTICATED':
+        case 'PERMISSION_DENIED': return 'auth';
+        case 'NOT_FOUND': return 'model_not_found';
+        case 'RESOURCE_EXHAUSTED': return isQuotaExhausted(error.message) ? 'quota' : 'rate_limit';
+        case 'DEADLINE_EXCEEDED': return 'timeout';
+        case 'UNAVAILABLE':
+        case 'INTERNAL': return 'server';
+    }
+    return undefined;
+}
+
+/**
+ * RESOURCE_EXHAUSTED covers both rate limits and used-up quota or billing limits.
+ * Only per-minute quotas clear by waiting; daily quotas, zero free-tier limits and billing do not.
+ */
+function isQuotaExhausted(message: string): boolean {
+    // Per-minute quota violations carry the same "exceeded your current quota ... billing" wording
+    if (/PerMinute|per minute/i.test(message)) return false;
+    return /exceeded your current quota|billing|credit|PerDay|per day|limit: 0\b/i.test(message);
+}
 
 export class GeminiProvider implements BaseProvider {
     private apiKey: string;
@@ -12,25 +46,133 @@ export class GeminiProvider implements BaseProvider {
         });
     }
 
-    async sendMessage(model: string, message: string): Promise<ProviderResult<string>> {
+    async sendMessage(model: string, messages: ChatMessage[], options: ProviderRequestOptions = {}): Promise<ProviderResult<string>> {
         try {
-        const response = await this.client.models.generateContent({
-            model: model,
-            contents: message,
-        });
+        const response = await this.client.models.generateContent(this.buildRequest(model, messages, options));
+        // Blocked prompts and responses come back as successful calls with no text
+        const blockReason = response.promptFeedback?.blockReason
+            ?? (response.candidates?.[0]?.finishReason === 'SAFETY' ? 'SAFETY' : undefined);
+        if (blockReason) {
+            throw new ContentFilteredError(`Gemini blocked the request (${blockReason})`, { provider: 'gemini', model });
+        }
+        // Gemini does not always assign call ids, so derive stable ones from position
+        const toolCalls: ToolCall[] = (response.functionCalls || []).map((call: any, index: number) => ({
+            id: call.id || `call_${index}`,
+            name: call.name,
+            arguments: call.args ?? {},
+        }));
+        // Thinking tokens are billed as output on Gemini 2.5 models
+        const usage = toTokenUsage(
+            response.usageMetadata?.promptTokenCount,
+            response.usageMetadata ? (response.usageMetadata.candidatesTokenCount ?? 0) + (response.usageMetadata.thoughtsTokenCount ?? 0) : undefined
+        );
         return {
             success: true,
-            data: response.text,
+            data: response.text ?? '',
             provider: 'gemini',
             model: model,
+            ...(toolCalls.length > 0 ? { toolCalls } : {}),
+            ...(usage ? { usage } : {}),
             };
         } catch (error) {
+            return failedResult(error, 'gemini', model, mapGeminiError);
+        }
+    }
+
+    async streamMessage(model: string, messages: ChatMessage[], options: ProviderRequestOptions = {}): Promise<ProviderResult<AsyncIterable<string>>> {
+        try {
+            const stream = await this.client.models.generateContentStream(this.buildRequest(model, messages, options));
             return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error',
+                success: true,
+                data: this.readTextDeltas(stream),
                 provider: 'gemini',
                 model: model,
             };
+        } catch (error) {
+            return failedResult(error, 'gemini', model, mapGeminiError);
+        }
+    }
+
+    /**
+     * Build generateContent parameters.
+     * Gemini uses 'model' for assistant turns, takes a separate system instruction,
+     * and expresses tool calls and results as functionCall/functionResponse parts.
+     */
+    private buildRequest(model: string, messages: ChatMessage[], options: ProviderRequestOptions): Record<string, any> {
+        const { system, messages: turns } = splitSystemMessages(messages);
+        // functionResponse parts are matched by name, so remember which call id maps to which tool
+        const toolNames = new Map<string, string>();
+        const contents = turns.map(m => {
+            if (m.role === 'tool') {
+                return {
+                    role: 'user',
+                    parts: [{
+                        functionResponse: {
+                            name: toolNames.get(m.toolCallId || '') || '',
+                            response: { result: m.content },
+                        },
+                    }],
+                };
+            }
+            if (m.role === 'assistant' && m.toolCalls?.length) {
+                m.toolCalls.forEach(call => toolNames.set(call.id, call.name));
+                return {
+                    role: 'model',
+                    parts: [
+                        ...(m.content ? [{ text: m.content }] : []),
+                        ...m.toolCalls.map(call => ({ functionCall: { name: call.name, args: call.arguments } })),
+                    ],
+                };
+            }
+            return {
+                role: m.role === 'assistant' ? 'model' : 'user',
+                parts: [{ text: m.content }],
+            };
+        });
+
+        const generation = clampGenerationOptions('gemini', model, options.generation);
+        const config: Record<string, any> = {
+            ...(generation.temperature !== undefined ? { temperature: generation.temperature } : {}),
+            ...(generation.topP !== undefined ? { topP: generation.topP } : {}),
+            ...(generation.maxTokens !== undefined ? { maxOutputTokens: generation.maxTokens } : {}),
+            ...(generation.stop ? { stopSequences: generation.stop } : {}),
+            ...(generation.seed !== undefined ? { seed: generation.seed } : {}),
+            ...(options.signal ? { abortSignal: options.signal } : {}),
+        };
+        if (system !== undefined) {
+            config.systemInstruction = system;
+        }
+        if (options.responseFormat) {
+            config.responseMimeType = 'application/json';
+            if (options.responseFormat.schema) {
+                config.responseJsonSchema = options.responseFormat.schema;
+            }
+        }
+        if (options.tools?.length) {
+            config.tools = [{
+                functionDeclarations: options.tools.map(tool => ({
+                    name: tool.name,
+                    description: tool.description,
+                    parametersJsonSchema: tool.parameters,
+                })),
+            }];
+        }
+
+        return {
+            model: model,
+            contents,
+            ...(Object.keys(config).length > 0 ? { config } : {}),
+        };
+    }
+
+    /**
+     * Extract text from Gemini's streamed response chunks.
+     */
+    private async *readTextDeltas(stream: AsyncIterable<any>): AsyncIterable<string> {
+        for await (const chunk of stream) {
+            if (chunk.text) {
+                yield chunk.text;
+            }
         }
     }
 
@@ -39,6 +181,6 @@ export class GeminiProvider implements BaseProvider {
     }
 
     getCapabilities(): string[] {
-        return ['text'];
+        return ['text', 'tools'];
     }
 }
\ No newline at end of file
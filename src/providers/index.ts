@@ -1,3 +1,4 @@
 export * from './base.js';
+export * from './errors.js';
 export * from './openai.js';
 export * from './gemini.js'; 
\ No newline at end of file
@@ -0,0 +1,78 @@
+import type { GenerationOptions } from './base.js';
+
+/**
+ * Generation limits for a provider/model combination.
+ */
+export interface ModelLimits {
+  maxOutputTokens: number;
+  defaultMaxTokens: number; // Used when the API requires max tokens and none was given
+  temperature: { min: number; max: number };
+  maxStopSequences: number;
+  supportsSampling: boolean; // Reasoning models reject temperature/top_p
+  supportsSeed: boolean;
+}
+
+// Provider families, keyed by the provider names used in createProvider
+const PROVIDER_LIMITS: Record<string, ModelLimits> = {
+  openai: { maxOutputTokens: 16384, defaultMaxTokens: 4096, temperature: { min: 0, max: 2 }, maxStopSequences: 4, supportsSampling: true, supportsSeed: true },
+  xai: { maxOutputTokens: 32768, defaultMaxTokens: 4096, temperature: { min: 0, max: 2 }, maxStopSequences: 4, supportsSampling: true, supportsSeed: true },
+  deepseek: { maxOutputTokens: 8192, defaultMaxTokens: 4096, temperature: { min: 0, max: 2 }, maxStopSequences: 16, supportsSampling: true, supportsSeed: false },
+  'meta-llama': { maxOutputTokens: 8192, defaultMaxTokens: 4096, temperature: { min: 0, max: 2 }, maxStopSequences: 4, supportsSampling: true, supportsSeed: true },
+  'meta-llama-groq': { maxOutputTokens: 8192, defaultMaxTokens: 4096, temperature: { min: 0, max: 2 }, maxStopSequences: 4, supportsSampling: true, supportsSeed: true },
+  anthropic: { maxOutputTokens: 8192, defaultMaxTokens: 4096, temperature: { min: 0, max: 1 }, maxStopSequences: 8191, supportsSampling: true, supportsSeed: false },
+  cohere: { maxOutputTokens: 4096, defaultMaxTokens: 4096, temperature: { min: 0, max: 1 }, maxStopSequences: 5, supportsSampling: true, supportsSeed: true },
+  gemini: { maxOutputTokens: 8192, defaultMaxTokens: 4096, temperature: { min: 0, max: 2 }, maxStopSequences: 5, supportsSampling: true, supportsSeed: true },
+  mistral: { maxOutputTokens: 32768, defaultMaxTokens: 4096, temperature: { min: 0, max: 1.5 }, maxStopSequences: 16, supportsSampling: true, supportsSeed: true },
+};
+
+// Model-specific overrides, matched against the API model id (first match wins)
+const MODEL_LIMIT_OVERRIDES: Array<{ pattern: RegExp; limits: Partial<ModelLimits> }> = [
+  { pattern: /^(o1|o3|o4)(-|$)|^gpt-5/, limits: { maxOutputTokens: 100000, supportsSampling: false } },
+  { pattern: /^gpt-4\.1/, limits: { maxOutputTokens: 32768 } },
+  { pattern: /^gpt-4o/, limits: { maxOutputTokens: 16384 } },
+  { pattern: /^gpt-4(-turbo)?($|-\d)|^gpt-3\.5/, limits: { maxOutputTokens: 4096 } },
+  { pattern: /^claude-3-(haiku|sonnet|opus)/, limits: { maxOutputTokens: 4096 } },
+  { pattern: /^claude-3-5/, limits: { maxOutputTokens: 8192 } },
+  { pattern: /^claude-3-7|^claude-sonnet-4/, limits: { maxOutputTokens: 64000 } },
+  { pattern: /^claude-opus-4/, limits: { maxOutputTokens: 32000 } },
+  { pattern: /^gemini-2\.5/, limits: { maxOutputTokens: 65536 } },
+  { pattern: /^command-a/, limits: { maxOutputTokens: 8192 } },
+  { pattern: /^deepseek-reasoner/, limits: { maxOutputTokens: 32768, supportsSampling: false } },
+];
+
+/**
+ * Get generation limits for a model on a provider
+ */
+export function getModelLimits(providerName: string, model: string): ModelLimits {
+  const base = PROVIDER_LIMITS[providerName] ?? PROVIDER_LIMITS.openai!;
+  const override = MODEL_LIMIT_OVERRIDES.find(entry => entry.pattern.test(model));
+  return override ? { ...base, ...override.limits } : base;
+}
+
+/**
+ * Clamp generation options to what a model accepts.
+ * Out-of-range values are clamped rather than rejected so a request written for
+ * one provider still runs after failover to another; unsupported options are dropped.
+ */
+export function clampGenerationOptions(providerName: string, model: string, options: GenerationOptions = {}): GenerationOptions {
+  const limits = getModelLimits(providerName, model);
+  const clamped: GenerationOptions = {};
+
+  if (options.temperature !== undefined && limits.supportsSampling) {
+    clamped.temperature = Math.min(Math.max(options.temperature, limits.temperature.min), limits.temperature.max);
+  }
+  if (options.topP !== undefined && limits.supportsSampling) {
+    clamped.topP = Math.min(Math.max(options.topP, 0), 1);
+  }
+  if (options.maxTokens !== undefined) {
+    clamped.maxTokens = Math.min(Math.max(Math.floor(options.maxTokens), 1), limits.maxOutputTokens);
+  }
+  if (options.stop?.length) {
+    clamped.stop = options.stop.slice(0, limits.maxStopSequences);
+  }
+  if (options.seed !== undefined && limits.supportsSeed) {
+    clamped.seed = Math.floor(options.seed);
+  }
+
+  return clamped;
+}
@@ -1,5 +1,21 @@
-import type { BaseProvider, ProviderResult, ProviderError } from './base.js';
+import type { BaseProvider, ChatMessage, ProviderRequestOptions, ProviderResult, ToolCall } from './base.js';
+import { failedResult, parseToolArguments, toTokenUsage } from './base.js';
+import { clampGenerationOptions } from './limits.js';
 import { Mistral } from '@mistralai/mistralai';
+import { ConnectionError, HTTPValidationError, RequestAbortedError, RequestTimeoutError } from '@mistralai/mistralai/models/errors/index.js';
+import type { RouterErrorCode } from './errors.js';
+
+/**
+ * Map Mistral SDK errors: transport failures have their own classes, and
+ * request validation failures come back as HTTPValidationError (422).
+ */
+function mapMistralError(error: unknown): RouterErrorCode | undefined {
+    if (error instanceof RequestAbortedError) return 'aborted';
+    if (error instanceof RequestTimeoutError) return 'timeout';
+    if (error instanceof ConnectionError) return 'network';
+    if (error instanceof HTTPValidationError) return 'invalid_request';
+    return undefined;
+}
 
 export class MistralProvider implements BaseProvider {
     private apiKey: string;
@@ -12,25 +28,40 @@ export class MistralProvider implements BaseProvider {
         });
     }
 
-    async sendMessage(model: string, message: string): Promise<ProviderResult<string>> {
+    async sendMessage(model: string, messages: ChatMessage[], options: ProviderRequestOptions = {}): Promise<ProviderResult<string>> {
         try {
-            const response = await this.client.chat.completions.create({
-                model: model,
-                messages: [{role: 'user', content: message}],
-            });
+            const response = await this.client.chat.complete(this.buildRequest(model, messages, options), this.buildRequestOptions(options));
+            const message = response.choices[0].message;
+            const toolCalls: ToolCall[] = (message.toolCalls || []).map((call: any) => ({
+                id: call.id,
+                name: call.function.name,
+                arguments: parseToolArguments(call.function.arguments),
+            }));
+            const usage = toTokenUsage(response.usage?.promptTokens, response.usage?.completionTokens);
             return {
                 success: true,
-                data: response.choices[0].message.content || '',
+                data: message.content || '',
                 provider: 'mistral',
                 model: model,
+                ...(toolCalls.length > 0 ? { toolCalls } : {}),
+                ...(usage ? { usage } : {}),
             };
         } catch (error) {
+            return failedResult(error, 'mistral', model, mapMistralError);
+        }
+    }
+
+    async streamMessage(model: string, messages: ChatMessage[], options: ProviderRequestOptions = {}): Promise<ProviderResult<AsyncIterable<string>>> {
+        try {
+            const stream = await this.client.chat.stream(this.buildRequest(model, messages, options), this.buildRequestOptions(options));
             return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error',
+                success: true,
+                data: this.readTextDeltas(stream),
                 provider: 'mistral',
                 model: model,
             };
+        } catch (error) {
+            return failedResult(error, 'mistral', model, mapMistralError);
         }
     }
 
@@ -73,12 +104,7 @@ export class MistralProvider implements BaseProvider {
                 model: model,
             };
         } catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error',
-                provider: 'mistral',
-                model: model,
-            };
+            return failedResult(error, 'mistral', model, mapMistralError);
         }
     }
 
@@ -103,12 +129,7 @@ export class MistralProvider implements BaseProvider {
                 throw new Error('No embedding data received');
             }
         } catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error',
-                provider: 'mistral',
-                model: model,
-            };
+            return failedResult(error, 'mistral', model, mapMistralError);
         }
     }
 
@@ -120,7 +141,77 @@ export class MistralProvider implements BaseProvider {
     }
 
     getCapabilities(): string[] {
-        return ['text', 'ocr', 'embedding']; // Mistral supports text, OCR, and embeddings
+        return ['text', 'tools', 'ocr', 'embedding']; // Mistral supports text, tool calling, OCR, and embeddings
+    }
+
+    /**
+     * Build SDK per-call options (abort signal).
+     */
+    private buildRequestOptions(options: ProviderRequestOptions): { fetchOptions?: { signal: AbortSignal } } {
+        return options.signal ? { fetchOptions: { signal: options.signal } } : {};
+    }
+
+    /**
+     * Build chat completion request parameters.
+     * Mistral follows the OpenAI function-calling shape with camelCase field names.
+     */
+    private buildRequest(model: string, messages: ChatMessage[], options: ProviderRequestOptions): Record<string, any> {
+        const generation = clampGenerationOptions('mistral', model, options.generation);
+        return {
+            model: model,
+            ...(generation.temperature !== undefined ? { temperature: generation.temperature } : {}),
+            ...(generation.topP !== undefined ? { topP: generation.topP } : {}),
+            ...(generation.maxTokens !== undefined ? { maxTokens: generation.maxTokens } : {}),
+            ...(generation.stop ? { stop: generation.stop } : {}),
+            ...(generation.seed !== undefined ? { randomSeed: generation.seed } : {}),
+            messages: messages.map(m => {
+                if (m.role === 'tool') {
+                    return { role: 'tool', toolCallId: m.toolCallId, content: m.content };
+                }
+                if (m.role === 'assistant' && m.toolCalls?.length) {
+                    return {
+                        role: 'assistant',
+                        content: m.content,
+                        toolCalls: m.toolCalls.map(call => ({
+                            id: call.id,
+                            type: 'function',
+                            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+                        })),
+                    };
+                }
+                return { role: m.role, content: m.content };
+            }),
+            ...(options.tools?.length ? {
+                tools: options.tools.map(tool => ({
+                    type: 'function',
+                    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+                })),
+            } : {}),
+            ...(options.responseFormat ? {
+                responseFormat: options.responseFormat.schema
+                    ? {
+                        type: 'json_schema',
+                        jsonSchema: { name: options.responseFormat.name || 'structured_output', schemaDefinition: options.responseFormat.schema },
+                    }
+                    : { type: 'json_object' },
+            } : {}),
+        };
+    }
+
+    /**
+     * Extract text deltas from Mistral's completion event stream.
+     * Delta content may be a plain string or an array of content chunks.
+     */
+    private async *readTextDeltas(stream: AsyncIterable<any>): AsyncIterable<string> {
+        for await (const event of stream) {
+            const content = event.data?.choices?.[0]?.delta?.content;
+            const text = Array.isArray(content)
+                ? content.map((chunk: any) => chunk.text ?? '').join('')
+                : content;
+            if (text) {
+                yield text;
+            }
+        }
     }
 
     /**
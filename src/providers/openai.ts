@@ -1,6 +1,28 @@
-import type { BaseProvider, ProviderResult, ProviderError, ProviderName } from './base.js';
-import { PROVIDER_CONFIGS } from './base.js';
+import type { BaseProvider, ChatMessage, ProviderRequestOptions, ProviderResult, ProviderName, ResponseFormat, ToolCall } from './base.js';
+import { failedResult, parseRateLimitHeaders, PROVIDER_CONFIGS, parseToolArguments, toTokenUsage } from './base.js';
+import { clampGenerationOptions } from './limits.js';
 import OpenAI from 'openai';
+import type { RouterErrorCode } from './errors.js';
+
+/**
+ * Map OpenAI SDK errors (also used by OpenAI-compatible providers) to router error codes.
+ */
+function mapOpenAIError(error: unknown): RouterErrorCode | undefined {
+  if (error instanceof OpenAI.APIUserAbortError) return 'aborted';
+  if (error instanceof OpenAI.APIConnectionTimeoutError) return 'timeout';
+  if (error instanceof OpenAI.APIConnectionError) return 'network';
+  if (!(error instanceof OpenAI.APIError)) return undefined;
+  switch (error.code) {
+    case 'invalid_api_key': return 'auth';
+    case 'insufficient_quota': return 'quota';
+    case 'rate_limit_exceeded': return 'rate_limit';
+    case 'context_length_exceeded': return 'context_length_exceeded';
+    case 'model_not_found': return 'model_not_found';
+    case 'content_filter':
+    case 'content_policy_violation': return 'content_filtered';
+  }
+  return undefined;
+}
 
 /**
  * OpenAI provider implementation.
@@ -24,27 +46,131 @@ export class OpenAIProvider implements BaseProvider {
   }
 
   /**
-   * Send a text message to an OpenAI-compatible model.
+   * Send a conversation to an OpenAI-compatible model.
    */
-  async sendMessage(model: string, message: string): Promise<ProviderResult<string>> {
+  async sendMessage(model: string, messages: ChatMessage[], options: ProviderRequestOptions = {}): Promise<ProviderResult<string>> {
     try {
-      const response = await this.client.chat.completions.create({
-        model: model,
-        messages: [{role: 'user', content: message}],
-      });
+      const { data: response, response: raw } = await this.client.chat.completions
+        .create(this.buildRequest(model, messages, options), this.buildRequestOptions(options))
+        .withResponse();
+      const message = response.choices[0].message;
+      const toolCalls: ToolCall[] = (message.tool_calls || []).map((call: any) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments),
+      }));
+      const usage = toTokenUsage(response.usage?.prompt_tokens, response.usage?.completion_tokens);
+      const rateLimit = parseRateLimitHeaders(raw.headers);
       return {
         success: true,
-        data: response.choices[0].message.content || '',
+        data: message.content || '',
         provider: this.providerName,
         model: model,
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        ...(usage ? { usage } : {}),
+        ...(rateLimit ? { rateLimit } : {}),
       };
     } catch (error) {
+      return failedResult(error, this.providerName, model, mapOpenAIError);
+    }
+  }
+
+  /**
+   * Stream a conversation from an OpenAI-compatible model as text deltas.
+   */
+  async streamMessage(model: string, messages: ChatMessage[], options: ProviderRequestOptions = {}): Promise<ProviderResult<AsyncIterable<string>>> {
+    try {
+      const { data: stream, response: raw } = await this.client.chat.completions.create({
+        ...this.buildRequest(model, messages, options),
+        stream: true,
+      }, this.buildRequestOptions(options)).withResponse();
+      const rateLimit = parseRateLimitHeaders(raw.headers);
       return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        success: true,
+        data: this.readTextDeltas(stream),
         provider: this.providerName,
         model: model,
+        ...(rateLimit ? { rateLimit } : {}),
       };
+    } catch (error) {
+      return failedResult(error, this.providerName, model, mapOpenAIError);
+    }
+  }
+
+  /**
+   * Build SDK per-call options (abort signal).
+   */
+  private buildRequestOptions(options: ProviderRequestOptions): { signal?: AbortSignal } {
+    return options.signal ? { signal: options.signal } : {};
+  }
+
+  /**
+   * Build Chat Completions request parameters.
+   * Chat roles map one-to-one; tool calls and results use the function-calling fields.
+   */
+  private buildRequest(model: string, messages: ChatMessage[], options: ProviderRequestOptions): Record<string, any> {
+    const generation = clampGenerationOptions(this.providerName, model, options.generation);
+    // OpenAI itself has moved to max_completion_tokens; compatible hosts still use max_tokens
+    const maxTokensField = this.providerName === 'openai' ? 'max_completion_tokens' : 'max_tokens';
+    return {
+      model: model,
+      messages: messages.map(m => {
+        if (m.role === 'tool') {
+          return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+        }
+        if (m.role === 'assistant' && m.toolCalls?.length) {
+          return {
+            role: 'assistant',
+            content: m.content || null,
+            tool_calls: m.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })),
+          };
+        }
+        return { role: m.role, content: m.content };
+      }),
+      ...(options.tools?.length ? {
+        tools: options.tools.map(tool => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      } : {}),
+      ...(options.responseFormat ? { response_format: this.buildResponseFormat(options.responseFormat) } : {}),
+      ...(generation.temperature !== undefined ? { temperature: generation.temperature } : {}),
+      ...(generation.topP !== undefined ? { top_p: generation.topP } : {}),
+      ...(generation.maxTokens !== undefined ? { [maxTokensField]: generation.maxTokens } : {}),
+      ...(generation.stop ? { stop: generation.stop } : {}),
+      ...(generation.seed !== undefined ? { seed: generation.seed } : {}),
+    };
+  }
+
+  /**
+   * Map the requested output format to response_format.
+   * Strict JSON Schema output is only available on some OpenAI-compatible hosts;
+   * the rest get plain JSON mode and rely on the schema in the prompt.
+   */
+  private buildResponseFormat(format: ResponseFormat): Record<string, any> {
+    const supportsJsonSchema = this.providerName === 'openai' || this.providerName === 'xai';
+    if (format.schema && supportsJsonSchema) {
+      return {
+        type: 'json_schema',
+        json_schema: { name: format.name || 'structured_output', schema: format.schema, strict: false },
+      };
+    }
+    return { type: 'json_object' };
+  }
+
+  /**
+   * Extract text deltas from a Chat Completions chunk stream.
+   */
+  private async *readTextDeltas(stream: AsyncIterable<any>): AsyncIterable<string> {
+    for await (const chunk of stream) {
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
     }
   }
 
@@ -89,12 +215,7 @@ export class OpenAIProvider implements BaseProvider {
         model: model,
       };
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        provider: this.providerName,
-        model: model,
-      };
+      return failedResult(error, this.providerName, model, mapOpenAIError);
     }
   }
 
@@ -145,12 +266,7 @@ export class OpenAIProvider implements BaseProvider {
         model: model,
       };
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        provider: this.providerName,
-        model: model,
-      };
+      return failedResult(error, this.providerName, model, mapOpenAIError);
     }
   }
 
@@ -181,12 +297,7 @@ export class OpenAIProvider implements BaseProvider {
         model: model,
       };
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        provider: this.providerName,
-        model: model,
-      };
+      return failedResult(error, this.providerName, model, mapOpenAIError);
     }
   }
 
@@ -273,12 +384,7 @@ export class OpenAIProvider implements BaseProvider {
         model: model,
       };
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        provider: this.providerName,
-        model: model,
-      };
+      return failedResult(error, this.providerName, model, mapOpenAIError);
     }
   }
 
@@ -337,12 +443,7 @@ export class OpenAIProvider implements BaseProvider {
         throw new Error('No embedding data received');
       }
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        provider: this.providerName,
-        model: model,
-      };
+      return failedResult(error, this.providerName, model, mapOpenAIError);
     }
   }
 
@@ -357,7 +458,7 @@ export class OpenAIProvider implements BaseProvider {
    * Get provider capabilities.
    */
   getCapabilities(): string[] {
-    return ['text', 'text-to-image', 'edit-image', 'speech-to-text', 'text-to-speech', 'embedding']; // OpenAI supports text, image, audio, and embeddings
+    return ['text', 'tools', 'text-to-image', 'edit-image', 'speech-to-text', 'text-to-speech', 'embedding']; // OpenAI supports text, tool calling, image, audio, and embeddings
   }
 
   /**
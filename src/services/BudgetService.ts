@@ -0,0 +1,212 @@
+import type { LLMModelData, MediaModelData } from '../client.js';
+import type { CostTrackingService } from './CostTrackingService.js';
+
+// Spend caps in USD for rolling calendar windows (UTC)
+export interface BudgetLimits {
+  daily?: number;
+  monthly?: number;
+}
+
+export interface BudgetConfig {
+  maxCostPerRequest?: number; // USD ceiling on a single request's estimated cost
+  overall?: BudgetLimits; // Caps across all providers
+  providers?: Record<string, BudgetLimits>; // Caps per provider key
+}
+
+// Output length assumed for cost and latency estimates when a request sets neither expectedOutputTokens nor maxTokens
+export const DEFAULT_EXPECTED_OUTPUT_TOKENS = 1024;
+
+// Token estimate for a request, used to predict its cost per model
+export interface CostEstimate {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type BudgetScope = 'request' | 'overall' | 'provider';
+export type BudgetPeriod = 'request' | 'daily' | 'monthly';
+
+// Remaining budget for one cap
+export interface BudgetStatus {
+  scope: BudgetScope;
+  provider?: string;
+  period: BudgetPeriod;
+  limit: number;
+  spent: number;
+  remaining: number;
+}
+
+/**
+ * Raised when a request is refused because it would exceed a budget.
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public scope: BudgetScope,
+    public period: BudgetPeriod,
+    public limit: number,
+    public spent: number,
+    public provider?: string
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class BudgetService {
+  private costService: CostTrackingService;
+  private config: BudgetConfig;
+
+  constructor(costService: CostTrackingService, config: BudgetConfig = {}) {
+    this.costService = costService;
+    this.config = config;
+  }
+
+  /**
+   * Replace the budget configuration
+   */
+  setConfig(config: BudgetConfig): void {
+    this.config = config;
+    console.log('[Budget] Budget configuration updated');
+  }
+
+  getConfig(): BudgetConfig {
+    return this.config;
+  }
+
+  /**
+   * Check if any budget is configured at all
+   */
+  isEnabled(): boolean {
+    return this.config.maxCostPerRequest !== undefined ||
+      this.hasLimits(this.config.overall) ||
+      Object.values(this.config.providers ?? {}).some(limits => this.hasLimits(limits));
+  }
+
+  /**
+   * Estimate the cost of a request on a model in USD
+   * Media models have no token pricing and are estimated at zero.
+   */
+  estimateCost(model: LLMModelData | MediaModelData, estimate: CostEstimate): number {
+    if (!('price_per_1M_input_tokens' in model)) return 0;
+    return this.costService.calculateCost(this.costService.getModelPricing(model), {
+      inputTokens: estimate.inputTokens,
+      outputTokens: estimate.outputTokens,
+      totalTokens: estimate.inputTokens + estimate.outputTokens,
+    });
+  }
+
+  /**
+   * Get remaining budget for every configured cap that applies to a provider
+   * (or every configured cap when no provider is given)
+   */
+  getStatus(provider?: string): BudgetStatus[] {
+    const statuses: BudgetStatus[] = [];
+
+    const addCaps = (limits: BudgetLimits | undefined, scope: BudgetScope, capProvider?: string) => {
+      for (const period of ['daily', 'monthly'] as const) {
+        const limit = limits?.[period];
+        if (limit === undefined) continue;
+        const spent = this.getSpentThisPeriod(period, capProvider);
+        statuses.push({
+          scope,
+          ...(capProvider !== undefined ? { provider: capProvider } : {}),
+          period,
+          limit,
+          spent,
+          remaining: Math.max(limit - spent, 0),
+        });
+      }
+    };
+
+    addCaps(this.config.overall, 'overall');
+    for (const [providerName, limits] of Object.entries(this.config.providers ?? {})) {
+      if (provider === undefined || providerName === provider) {
+        addCaps(limits, 'provider', providerName);
+      }
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Find the cap a request on this model would break, if any
+   * @param requestSpent - USD the request has already spent on earlier calls, counted against the per-request limit
+   * @returns A BudgetExceededError describing the tightest cap, or null when affordable
+   */
+  checkModel(model: LLMModelData | MediaModelData, estimate: CostEstimate, requestSpent: number = 0): BudgetExceededError | null {
+    const cost = this.estimateCost(model, estimate);
+
+    const ceiling = this.config.maxCostPerRequest;
+    if (ceiling !== undefined && requestSpent + cost > ceiling) {
+      const already = requestSpent > 0 ? ` on top of $${requestSpent.toFixed(6)} already spent` : '';
+      return new BudgetExceededError(
+        `Estimated cost $${cost.toFixed(6)} for ${model.provider_name}:${model.name}${already} exceeds the per-request limit of $${ceiling}`,
+        'request', 'request', ceiling, requestSpent + cost, model.provider_name
+      );
+    }
+
+    for (const status of this.getStatus(model.provider_name)) {
+      // A cap that is already spent refuses everything, including zero-cost estimates
+      if (status.remaining <= 0 || cost > status.remaining) {
+        const owner = status.scope === 'provider' ? `${status.provider} ${status.period}` : `overall ${status.period}`;
+        return new BudgetExceededError(
+          `The ${owner} budget of $${status.limit} has $${status.remaining.toFixed(6)} left, not enough for ${model.provider_name}:${model.name} (estimated $${cost.toFixed(6)})`,
+          status.scope, status.period, status.limit, status.spent, status.provider
+        );
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Split models into those the budget can afford and those it cannot
+   * @param requestSpent - USD the request has already spent on earlier calls
+   */
+  partition<T extends LLMModelData | MediaModelData>(models: T[], estimate: CostEstimate, requestSpent: number = 0): { affordable: T[]; rejected: Array<{ model: T; reason: BudgetExceededError }> } {
+    const affordable: T[] = [];
+    const rejected: Array<{ model: T; reason: BudgetExceededError }> = [];
+
+    for (const model of models) {
+      const reason = this.checkModel(model, estimate, requestSpent);
+      if (reason) {
+        rejected.push({ model, reason });
+      } else {
+        affordable.push(model);
+      }
+    }
+
+    return { affordable, rejected };
+  }
+
+  /**
+   * Explain why none of the given models can be afforded
+   * @returns The reason the cheapest model was rejected, or null when any model is affordable
+   */
+  getRefusal(models: (LLMModelData | MediaModelData)[], estimate: CostEstimate): BudgetExceededError | null {
+    const { affordable, rejected } = this.partition(models, estimate);
+    if (affordable.length > 0 || rejected.length === 0) return null;
+    rejected.sort((a, b) => this.estimateCost(a.model, estimate) - this.estimateCost(b.model, estimate));
+    return rejected[0]!.reason;
+  }
+
+  /**
+   * Check if an overall cap is already used up, before spending anything on routing
+   */
+  getExhaustedOverallBudget(): BudgetExceededError | null {
+    const exhausted = this.getStatus().find(status => status.scope === 'overall' && status.remaining <= 0);
+    if (!exhausted) return null;
+    return new BudgetExceededError(
+      `The overall ${exhausted.period} budget of $${exhausted.limit} has been reached`,
+      'overall', exhausted.period, exhausted.limit, exhausted.spent
+    );
+  }
+
+  private getSpentThisPeriod(period: 'daily' | 'monthly', provider?: string): number {
+    return this.costService.getPeriodSpend(period === 'daily' ? 'day' : 'month', provider);
+  }
+
+  private hasLimits(limits: BudgetLimits | undefined): boolean {
+    return limits?.daily !== undefined || limits?.monthly !== undefined;
+  }
+}
@@ -1,15 +1,230 @@
 import type { RouterClient } from '../client.js';
 import { createProvider } from '../providers/factory.js';
+import { addTokenUsage, toChatMessages } from '../providers/base.js';
+import type { BaseProvider, ChatMessage, GenerationOptions, ProviderRequestOptions, ProviderResult, TokenUsage, ToolCall, ToolDefinition } from '../providers/base.js';
+import { AbortedError, createRouterError, QueueTimeoutError, RouterError, TimeoutError } from '../providers/errors.js';
+import type { RouterErrorCode } from '../providers/errors.js';
+import { StructuredOutputService } from './StructuredOutputService.js';
+import { RequestClassifierService } from './RequestClassifierService.js';
+import { EnsembleService, JUDGE_SCHEMA } from './EnsembleService.js';
+import type { JudgeVerdict } from './EnsembleService.js';
+import type { JSONSchema } from './StructuredOutputService.js';
+import type { SpendPurpose } from './CostTrackingService.js';
+import { resolveHedgingSettings } from './ConfigurationService.js';
+import type { HedgingSettings } from './ConfigurationService.js';
+import { BudgetExceededError, DEFAULT_EXPECTED_OUTPUT_TOKENS } from './BudgetService.js';
+import type { CostEstimate } from './BudgetService.js';
+import { DeadlineUnreachableError } from './LatencyService.js';
+import { PolicyViolationError } from './CompliancePolicyService.js';
+import type { ModelExclusion } from './RoutingAuditService.js';
+import { randomUUID } from 'node:crypto';
+import type { ModelScore } from '../strategies/scoring.js';
+import type { SelectionContext } from '../strategies/base.js';
+import { HeuristicVerifier, JudgeVerifier, SelfConsistencyVerifier, ValidationVerifier } from '../verifiers/index.js';
+import type { AnswerVerifier, ValidationFunction, VerificationContext, VerificationResult } from '../verifiers/index.js';
 
 // Import the actual model types from client
-import type { LLMModelData, MediaModelData } from '../client.js';
+import type { LLMModelData, MediaModelData, ModelFilterOptions } from '../client.js';
 
 
 
+// A single model attempt made while serving a request
+export interface ModelAttempt {
+  provider: string;
+  model: string;
+  success: boolean;
+  error?: string;
+  errorCode?: RouterErrorCode; // Normalized cause of a failed attempt
+  status?: number; // HTTP status of a failed attempt, when the provider reported one
+  latencyMs: number;
+  retries?: number; // Transient failures retried on this model before it answered
+}
+
+// Wall-clock time spent in each phase of a request, in milliseconds
+export interface ChatTiming {
+  analysisMs: number;
+  selectionMs: number; // Filtering and strategy-based ranking
+  executionMs: number; // Model calls including failover (time to first chunk when streaming)
+  totalMs: number;
+}
+
+// Actual cost of a request in USD, from reported token usage
+export interface ChatCost {
+  execution: number; // The serving model's call(s); for streams, see ChatStreamResponse.finalCost
+  routing: number; // The router's own analysis, ranking, judge and verification calls
+  hedging: number; // Hedged calls aborted after another candidate won (estimated)
+  total: number;
+}
+
+// Typed causes for requests the router refused to send
+export type RoutingRefusal = BudgetExceededError | DeadlineUnreachableError | PolicyViolationError;
+
+// Routing metadata included with every chat response
+export interface ChatResponseMetadata {
+  requestId: string; // Key of this request's routing audit record
+  provider?: string; // Provider that served the request
+  model?: string; // Model that served the request
+  analysis?: AnalysisResult;
+  attempts: ModelAttempt[]; // Every model tried, in order
+  timing: ChatTiming;
+  usage?: TokenUsage; // Token usage of the serving model
+  cost: ChatCost;
+  scores?: ModelScore[]; // Per-candidate scores, when the selection strategy computed them
+  errorDetails?: RoutingRefusal | RouterError; // Typed cause when the request was refused, cancelled or timed out
+}
+
 // Chat response interface
-export interface ChatResponse {
+export interface ChatResponse extends ChatResponseMetadata {
   success: boolean;
   data: string;
+  toolCalls?: ToolCall[]; // Tool calls requested by the model, when tools were supplied
+}
+
+// Structured (JSON) chat response interface
+export interface ChatJSONResponse<T = unknown> extends ChatResponseMetadata {
+  success: boolean;
+  data: T | null; // Parsed value that passed schema validation
+  error?: string;
+}
+
+// Streaming chat response interface
+export interface ChatStreamResponse extends ChatResponseMetadata {
+  success: boolean;
+  stream: AsyncIterable<string>; // Text deltas from the model that won failover; read it to the end or stop early with break (return() on its iterator)
+  finalCost: Promise<ChatCost>; // `cost` plus the streamed answer's estimated cost; resolves once the stream is read to the end or closed
+  error?: string;
+}
+
+// How an ensemble combines its members' answers
+export type EnsembleMode = 'vote' | 'judge' | 'all';
+
+// Options for querying several models at once
+export interface EnsembleOptions extends RequestOptions {
+  mode?: EnsembleMode; // vote (default): majority of normalized answers; judge: a model picks the best; all: side by side
+  size?: number; // Number of answers to combine, default 3
+  merge?: boolean; // Judge mode: have the judge write a merged answer instead of picking one
+  judgeModel?: string; // Judge mode: model to judge with (same forms as pinnedModel); defaults to the analysis model
+}
+
+// One model's contribution to an ensemble
+export interface EnsembleMemberResponse {
+  provider: string;
+  model: string;
+  success: boolean;
+  data?: string;
+  error?: string;
+  latencyMs: number;
+  usage?: TokenUsage;
+  cost: number; // USD
+}
+
+// Ensemble chat response interface
+export interface ChatEnsembleResponse extends ChatResponseMetadata {
+  success: boolean;
+  data: string; // The combined answer; provider and model identify the member it came from
+  mode: EnsembleMode;
+  responses: EnsembleMemberResponse[]; // Every model queried, in rank order
+  agreement: number; // 0-1: share of answers matching the vote winner, or mean pairwise word overlap otherwise
+  votes?: Record<string, number>; // Normalized answer -> number of models, when combined by vote
+  judge?: { provider: string; model: string; picked: number; merged: boolean; reasoning: string }; // picked indexes responses
+}
+
+// Options for cascade routing
+export interface CascadeOptions extends RequestOptions {
+  verifier?: 'heuristic' | 'judge' | 'consistency' | AnswerVerifier | ValidationFunction; // Scores each answer, default 'heuristic'
+  threshold?: number; // Minimum verifier score (0-1) to accept an answer, default 0.7
+  maxSteps?: number; // Most models to answer, including the first, default 3
+  judgeModel?: string; // 'judge' verifier: model to grade with (same forms as pinnedModel); defaults to the analysis model
+}
+
+// One model answering in a cascade
+export interface CascadeStep {
+  provider: string;
+  model: string;
+  tier: 'cheap' | 'strong'; // From the cheapest strategy, or an escalation to the most accurate ones
+  score: number; // Verifier score (0-1)
+  reason?: string; // Why the verifier marked the answer down
+  accepted: boolean; // Score met the threshold
+  latencyMs: number; // Answer plus verification
+  cost: number; // USD, answer plus verification
+}
+
+// Cascade chat response interface
+export interface ChatCascadeResponse extends ChatResponseMetadata {
+  success: boolean;
+  data: string; // The accepted answer, or the best-scoring one when none was accepted
+  verified: boolean; // The returned answer met the threshold
+  path: CascadeStep[]; // Every model that answered, in escalation order; cost.total covers all of them
+}
+
+// Per-request routing constraints and overrides; they apply to that call only
+export interface RoutingOptions {
+  maxLatencyMs?: number; // Latency target: skip models not predicted to finish within this many ms
+  deadline?: number | Date; // Absolute deadline (epoch ms or Date); combined with maxLatencyMs, the earlier wins
+  expectedOutputTokens?: number; // Expected response length for latency and cost predictions (defaults to maxTokens)
+  strategy?: string; // Registered selection strategy, instead of the configured one
+  rotating?: boolean; // Provider rotation, instead of the configured setting
+  allowProviders?: string[]; // Only route to these provider keys
+  denyProviders?: string[]; // Never route to these provider keys
+  allowModels?: string[]; // Only route to these models (benchmark name, provider:name, or API model ID)
+  denyModels?: string[]; // Never route to these models (same forms as allowModels)
+  pinnedModel?: string; // Route only to this model, bypassing strategy ranking (same forms as allowModels)
+  capability?: AnalysisResult['capability']; // Use this capability instead of the analyzed one
+  skipAnalysis?: boolean; // Skip request analysis and select on general-purpose metrics
+  hedging?: Partial<HedgingSettings>; // Hedged or raced execution, instead of the configured settings
+  signal?: AbortSignal; // Cancels the request, including in-flight provider calls
+  timeoutMs?: number; // Time limit for the whole request, instead of the configured one (0 for none)
+  attemptTimeoutMs?: number; // Time limit for each model attempt before failing over, instead of the configured one (0 for none)
+  dataClassification?: string; // Only route to models whose compliance policy allows this class (e.g. 'confidential')
+}
+
+// Per-request options shared by chat, chatJSON and chatStream
+export interface RequestOptions extends GenerationOptions, RoutingOptions {}
+
+// Per-request chat options; generation parameters are clamped to each model's limits
+export interface ChatOptions extends RequestOptions {
+  tools?: ToolDefinition[]; // Only models that support tool calling are routed to when set
+}
+
+// Result of running a single candidate model
+interface ModelRun<T> {
+  value: T;
+  usage?: TokenUsage | undefined;
+  retries?: number; // Transient failures retried on this model before it answered
+  close?: () => void; // Releases a result abandoned unread, e.g. a stream that opened after its attempt was aborted
+}
+
+// A model queried as part of an ensemble
+interface EnsembleMember {
+  rank: number; // Position in the strategy's ranking
+  model: LLMModelData;
+  run?: ModelRun<ProviderResult<string>>;
+  error?: string;
+  latencyMs: number;
+  cost: number;
+}
+
+// Routing details collected while serving one request
+interface RequestTrace {
+  id: string;
+  startedAt: number;
+  analysis?: AnalysisResult;
+  attempts: ModelAttempt[];
+  timing: ChatTiming;
+  executionCost: number;
+  routingCost: number;
+  hedgingCost: number;
+  costEstimate?: CostEstimate | undefined; // Expected request size, set when budgets are enabled
+  expectedOutputTokens: number;
+  deadline?: number | undefined; // Epoch ms by which the response must be complete
+  signal?: AbortSignal | undefined; // Aborts when the caller cancels or the request timeout passes
+  routing: RoutingOptions; // Per-request overrides
+  dataClassification?: string | undefined; // Resolved data classification the request is routed under
+  candidates: string[]; // provider:model keys that passed filtering
+  exclusions: ModelExclusion[];
+  selected: string[]; // provider:model keys in the order they will be tried
+  messages?: ChatMessage[]; // The normalized conversation, for selection strategies
+  scores?: ModelScore[];
 }
 
 // Analysis result interface
@@ -19,6 +234,8 @@ export interface AnalysisResult {
   priorityMetrics: string[];
   modelType: 'llm' | 'media';
   capability: 'text' | 'image' | 'audio' | 'video' | 'embedding';
+  source?: 'local' | 'llm' | 'fallback'; // Which analyzer produced this result
+  confidence?: number; // Local classifier confidence (0-1)
 }
 
 // Available evaluation metrics
@@ -37,27 +254,68 @@ const EVALUATION_METRICS = [
   'image_benchmark_index'
 ] as const;
 
+// Deterministic settings for the router's own analysis and ranking calls
+const ROUTER_GENERATION: GenerationOptions = { temperature: 0, maxTokens: 1024 };
+
+// Schema for the router's own request analysis call
+const ANALYSIS_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    requestType: { type: 'string' },
+    relevantMetrics: { type: 'array', items: { type: 'string' } },
+    priorityMetrics: { type: 'array', items: { type: 'string' } },
+    modelType: { type: 'string', enum: ['llm', 'media'] },
+    capability: { type: 'string', enum: ['text', 'image', 'audio', 'video', 'embedding'] },
+  },
+  required: ['requestType', 'relevantMetrics', 'priorityMetrics', 'modelType', 'capability'],
+};
+
+// Schema for the router's own model ranking call
+const RANKING_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    ranking: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['ranking'],
+};
+
 export class ChatService {
   private client: RouterClient;
-
-  // Circuit breaker tracking - maps model keys to health data
-  private modelHealth: Map<string, {
-    failures: number;
-    lastFailure: number;
-    disabledUntil?: number;
-    disabledReason: 'TEMPORARY' | 'PERMANENT' | null;
-  }> = new Map();
+  private structuredOutput: StructuredOutputService;
+  private classifier: RequestClassifierService;
+  private ensemble: EnsembleService;
 
   constructor(client: RouterClient) {
     this.client = client;
+    this.structuredOutput = new StructuredOutputService();
+    this.classifier = new RequestClassifierService();
+    this.ensemble = new EnsembleService();
     
-    console.log('[ChatService] Initialized with smart model selection and LLM analysis');
+    console.log('[ChatService] Initialized with smart model selection and local/LLM analysis');
   }
 
   /**
-   * Analyze user request to determine relevant metrics and model type
+   * Analyze user request to determine relevant metrics and model type.
+   * The local classifier answers confident cases; the LLM is asked only when it is unsure.
    */
-  private async analyzeRequest(userRequest: string): Promise<AnalysisResult> {
+  private async analyzeRequest(userRequest: string, trace?: RequestTrace): Promise<AnalysisResult> {
+    const { mode, confidenceThreshold } = this.client.getAnalysisSettings();
+    const local = this.classifier.classify(userRequest);
+    const localAnalysis: AnalysisResult = { ...local.analysis, source: 'local', confidence: local.confidence };
+    
+    if (mode === 'local' || (mode === 'auto' && local.confidence >= confidenceThreshold)) {
+      console.log(`[ChatService] Local analysis: ${local.analysis.requestType} (confidence ${local.confidence}, signals: ${local.signals.join(', ') || 'none'})`);
+      return localAnalysis;
+    }
+    
+    const cache = this.client.getDecisionCache();
+    const cached = await cache.get<AnalysisResult>('analysis', [userRequest]);
+    if (cached) {
+      console.log(`[ChatService] Using cached analysis: ${cached.requestType}`);
+      return { ...cached }; // Memory storage hands back the stored object itself
+    }
+    
+    console.log(`[ChatService] Local analysis confidence ${local.confidence} below ${confidenceThreshold}, asking the analysis model`);
     try {
       // Get a suitable provider and API key from client configuration
       const { provider, apiKey, model } = this.getAnalysisProviderConfig();
@@ -71,25 +329,21 @@ export class ChatService {
         throw new Error(`Invalid provider name for analysis: ${provider}`);
       }
       
-      const analysisProvider = createProvider(provider as any, apiKey);
+      const analysisProvider = this.createLimitedProvider(provider, apiKey);
       
       const prompt = this.buildAnalysisPrompt(userRequest);
       
-      const response = await analysisProvider.sendMessage(model, prompt);
-      
-      if (!response.success) {
-        throw new Error(`Analysis failed: ${response.error || 'Unknown error'}`);
-      }
+      const record = (usage: TokenUsage | undefined) => this.recordRouterCost(provider, model, 'analysis', usage, trace);
+      const { value, usage } = await this.requestStructured(analysisProvider, provider, model, [{ role: 'user', content: prompt }], ANALYSIS_SCHEMA, 'request_analysis', ROUTER_GENERATION, trace?.signal, record);
+      record(usage);
       
-      if (!response.data) {
-        throw new Error('Analysis response has no data');
-      }
-      
-      return this.parseAnalysisResponse(response.data);
+      const analysis: AnalysisResult = { ...this.parseAnalysisResponse(value), confidence: local.confidence };
+      await cache.set('analysis', [userRequest], analysis);
+      return analysis;
     } catch (error) {
       console.error('[ChatService] Error in request analysis:', error);
-      // Fallback to basic analysis
-      return this.fallbackAnalysis(userRequest);
+      // Fall back to the local classification, however unsure
+      return localAnalysis;
     }
   }
 
@@ -182,13 +436,11 @@ Focus on:
   }
 
   /**
-   * Parse LLM analysis response
+   * Sanitize a schema-validated analysis response
    */
-  private parseAnalysisResponse(response: string): AnalysisResult {
+  private parseAnalysisResponse(parsed: any): AnalysisResult {
     try {
-      const parsed = JSON.parse(response);
-      
-      // Validate and sanitize the response
+      // Sanitize the response
       const validMetrics = new Set(EVALUATION_METRICS);
       
       return {
@@ -201,6 +453,7 @@ Focus on:
           .slice(0, 2), // Max 2 priority metrics
         modelType: parsed.modelType === 'media' ? 'media' : 'llm',
         capability: parsed.capability || 'text',
+        source: 'llm',
       };
     } catch (error) {
       console.error('[ChatService] Error parsing analysis response:', error);
@@ -209,7 +462,7 @@ Focus on:
   }
 
   /**
-   * Fallback analysis when LLM analysis fails
+   * Default analysis when analysis fails or is skipped
    */
   private fallbackAnalysis(userRequest: string): AnalysisResult {
     // Default to general metrics if analysis fails
@@ -219,48 +472,958 @@ Focus on:
       priorityMetrics: ['artificial_analysis_intelligence_index'],
       modelType: 'llm',
       capability: 'text',
+      source: 'fallback',
     };
   }
 
 
 
+  /**
+   * Build the text the analysis step classifies from a conversation.
+   * The latest user turn drives routing; system prompts are included as context.
+   */
+  private getAnalysisText(messages: ChatMessage[]): string {
+    const lastUserMessage = [...messages].reverse().find(m => m.role === 'user');
+    const systemPrompt = messages.filter(m => m.role === 'system').map(m => m.content).join('\n');
+    const request = lastUserMessage?.content ?? messages.map(m => m.content).join('\n');
+    return systemPrompt ? `${request}\n\n(System context: ${systemPrompt})` : request;
+  }
+
   /**
    * Main method to execute chat request
+   * @param request - A single user message or the full conversation history
+   * @param options - Per-request options such as tool definitions
    */
-  async execute(userRequest: string): Promise<ChatResponse> {
+  async execute(request: string | ChatMessage[], options: ChatOptions = {}): Promise<ChatResponse> {
+    const trace = this.createTrace();
     try {
-      // Phase 1: LLM analyzes user request to determine relevant metrics and model type
-      const analysis = await this.analyzeRequest(userRequest);
-      console.log(`[ChatService] LLM Analysis: ${analysis.requestType}, Metrics: ${analysis.relevantMetrics.join(', ')}, Model Type: ${analysis.modelType}`);
-      
-      // Phase 2: Filter models based on LLM analysis (relevant metrics + capability + API keys)
-      const filteredModels = this.client.getFilteredModels(analysis.relevantMetrics, analysis.priorityMetrics, analysis.capability, 10);
-      console.log(`[ChatService] Retrieved ${filteredModels.length} filtered models based on LLM analysis (capability: ${analysis.capability})`);
+      const messages = this.normalizeRequest(request);
+      const providerOptions = this.buildProviderOptions(options);
+      const requiredFeatures = options.tools?.length ? ['tools'] : [];
+      this.applyRoutingOptions(trace, messages, options);
+
+      // Phase 1 & 2: Analyze the request and filter candidate models
+      const { analysis, models } = await this.planRequest(messages, trace, requiredFeatures);
       
       // Phase 3: Execute with smart model selection and circuit breaker logic
-      const response = await this.executeWithCircuitBreaker(filteredModels, userRequest, analysis);
-      return response;
+      const served = await this.executeWithCircuitBreaker(models, analysis, trace, (model, signal) => this.executeLLMModel(model, messages, { ...providerOptions, ...(signal ? { signal } : {}) }));
+      if (!served) {
+        return {
+          success: false,
+          data: 'All available models failed to execute the request',
+          ...this.finishRequest(trace),
+        };
+      }
+
+      this.recordExecutionCost(served, trace);
+      const response = served.run.value;
+      return {
+        success: true,
+        data: response.data || '',
+        ...(response.toolCalls ? { toolCalls: response.toolCalls } : {}),
+        ...this.finishRequest(trace, served),
+      };
     } catch (error) {
       console.error('[ChatService] Error executing chat request:', error);
       return {
         success: false,
-        data: 'Failed to process request'
+        data: this.describeFailure(error),
+        ...this.finishRequest(trace, undefined, error),
+      };
+    }
+  }
+
+  /**
+   * Execute a chat request and stream the response as text deltas.
+   * Failover continues until a candidate produces its first chunk; after that
+   * the stream is committed to that model.
+   * @param request - A single user message or the full conversation history
+   * @param options - Generation parameters and routing constraints (tools are not supported while streaming)
+   */
+  async executeStream(request: string | ChatMessage[], options: RequestOptions = {}): Promise<ChatStreamResponse> {
+    const trace = this.createTrace();
+    try {
+      const messages = this.normalizeRequest(request);
+      const providerOptions = this.buildProviderOptions(options);
+      this.applyRoutingOptions(trace, messages, options);
+      const { analysis, models } = await this.planRequest(messages, trace);
+
+      const served = await this.executeWithCircuitBreaker(models, analysis, trace, (model, signal) => this.executeLLMModelStream(model, messages, { ...providerOptions, ...(signal ? { signal } : {}) }));
+      if (!served) {
+        const metadata = this.finishRequest(trace);
+        return {
+          success: false,
+          stream: this.emptyStream(),
+          finalCost: Promise.resolve(metadata.cost),
+          error: 'All available models failed to execute the request',
+          ...metadata,
+        };
+      }
+
+      // The answer's cost is only known once the stream ends, after this response is returned
+      const metadata = this.finishRequest(trace, served);
+      let settleCost: (cost: ChatCost) => void = () => {};
+      const finalCost = new Promise<ChatCost>(resolve => {
+        settleCost = resolve;
+      });
+      return {
+        success: true,
+        stream: this.meterStream(served.run.value, served.model, messages, streamCost => settleCost({
+          ...metadata.cost,
+          execution: metadata.cost.execution + streamCost,
+          total: metadata.cost.total + streamCost,
+        })),
+        finalCost,
+        ...metadata,
+      };
+    } catch (error) {
+      console.error('[ChatService] Error executing streaming chat request:', error);
+      const metadata = this.finishRequest(trace, undefined, error);
+      return {
+        success: false,
+        stream: this.emptyStream(),
+        finalCost: Promise.resolve(metadata.cost),
+        error: this.describeFailure(error),
+        ...metadata,
+      };
+    }
+  }
+
+  /**
+   * Execute a chat request whose answer must be JSON matching a schema.
+   * Each candidate gets one repair attempt (local fix-up, then a re-ask)
+   * before failover moves to the next model.
+   * @param request - A single user message or the full conversation history
+   * @param schema - JSON Schema the response must satisfy
+   * @param options - Generation parameters and routing constraints
+   */
+  async executeJSON<T = unknown>(request: string | ChatMessage[], schema: JSONSchema, options: RequestOptions = {}): Promise<ChatJSONResponse<T>> {
+    const trace = this.createTrace();
+    try {
+      const messages = this.normalizeRequest(request);
+      const generation = this.buildProviderOptions(options).generation;
+      this.applyRoutingOptions(trace, messages, options);
+      const { analysis, models } = await this.planRequest(messages, trace);
+
+      const served = await this.executeWithCircuitBreaker(models, analysis, trace, (model, signal) => {
+        const provider = this.createLimitedProvider(model.provider_name, this.client.getProviderConfig(model.provider_name)?.api_key || '');
+        return this.requestStructured(provider, model.provider_name, this.getApiModelId(model), messages, schema, undefined, generation, signal,
+          usage => this.recordExecutionCost({ model, run: { value: null, usage } }, trace));
+      });
+      if (!served) {
+        return {
+          success: false,
+          data: null,
+          error: 'All available models failed to produce valid JSON for the request',
+          ...this.finishRequest(trace),
+        };
+      }
+
+      this.recordExecutionCost(served, trace);
+      return {
+        success: true,
+        data: served.run.value as T,
+        ...this.finishRequest(trace, served),
+      };
+    } catch (error) {
+      console.error('[ChatService] Error executing JSON chat request:', error);
+      return {
+        success: false,
+        data: null,
+        error: this.describeFailure(error),
+        ...this.finishRequest(trace, undefined, error),
+      };
+    }
+  }
+
+  /**
+   * Query several of the selected models in parallel and combine their answers.
+   * Members are taken from the top of the strategy's ranking; a member that fails
+   * is replaced by the next candidate.
+   * @param request - A single user message or the full conversation history
+   * @param options - Combination mode, ensemble size, generation parameters and routing constraints
+   */
+  async executeEnsemble(request: string | ChatMessage[], options: EnsembleOptions = {}): Promise<ChatEnsembleResponse> {
+    const trace = this.createTrace();
+    const mode = options.mode ?? 'vote';
+    try {
+      const size = options.size ?? 3;
+      if (!Number.isInteger(size) || size < 1) {
+        throw new Error('Ensemble size must be a positive integer');
+      }
+      const messages = this.normalizeRequest(request);
+      const providerOptions = this.buildProviderOptions(options);
+      this.applyRoutingOptions(trace, messages, options);
+      // Budget every member and the judge, not a single call
+      this.scaleCostEstimate(trace, size + (mode === 'judge' ? 1 : 0));
+      const { analysis, models } = await this.planRequest(messages, trace);
+
+      const selectionStart = Date.now();
+      const ranked = await this.selectModelsByStrategy(models, analysis, trace);
+      trace.timing.selectionMs += Date.now() - selectionStart;
+
+      const executionStart = Date.now();
+      const members = await this.runEnsembleMembers(ranked, size, messages, providerOptions, trace);
+      trace.timing.executionMs = Date.now() - executionStart;
+
+      const responses: EnsembleMemberResponse[] = members.map(member => ({
+        provider: member.model.provider_name,
+        model: member.model.name,
+        success: member.run !== undefined,
+        ...(member.run ? { data: member.run.value.data || '' } : {}),
+        ...(member.error ? { error: member.error } : {}),
+        latencyMs: member.latencyMs,
+        ...(member.run?.usage ? { usage: member.run.usage } : {}),
+        cost: member.cost,
+      }));
+      const answered = members.filter(member => member.run !== undefined);
+      if (answered.length === 0) {
+        this.checkCancelled(trace);
+        return {
+          success: false,
+          data: 'All available models failed to execute the request',
+          mode,
+          responses,
+          agreement: 0,
+          ...this.finishRequest(trace),
+        };
+      }
+
+      const answers = answered.map(member => member.run!.value.data || '');
+      let chosen = 0;
+      let data: string;
+      let agreement: number;
+      let votes: Record<string, number> | undefined;
+      let judge: ChatEnsembleResponse['judge'];
+
+      if (mode === 'all') {
+        data = answers[0]!;
+        agreement = this.ensemble.measureAgreement(answers);
+      } else {
+        let verdict: { verdict: JudgeVerdict; provider: string; model: string } | undefined;
+        if (mode === 'judge' && answers.length > 1) {
+          try {
+            verdict = await this.judgeEnsemble(messages, answers, options, trace);
+          } catch (error) {
+            console.error('[ChatService] Ensemble judge failed, falling back to majority vote:', error);
+          }
+        }
+
+        if (verdict) {
+          chosen = verdict.verdict.best;
+          data = options.merge && verdict.verdict.answer ? verdict.verdict.answer : answers[chosen]!;
+          agreement = this.ensemble.measureAgreement(answers);
+          judge = {
+            provider: verdict.provider,
+            model: verdict.model,
+            picked: members.indexOf(answered[chosen]!),
+            merged: Boolean(options.merge && verdict.verdict.answer),
+            reasoning: verdict.verdict.reasoning,
+          };
+        } else {
+          const tally = this.ensemble.tallyVotes(answers);
+          chosen = tally.winner;
+          data = answers[chosen]!;
+          agreement = tally.agreement;
+          votes = tally.votes;
+        }
+      }
+      console.log(`[ChatService] Ensemble (${mode}) combined ${answered.length} answers, agreement ${agreement.toFixed(2)}`);
+
+      const served = answered[chosen]!;
+      return {
+        success: true,
+        data,
+        mode,
+        responses,
+        agreement,
+        ...(votes ? { votes } : {}),
+        ...(judge ? { judge } : {}),
+        ...this.finishRequest(trace, { model: served.model, run: served.run! }),
+      };
+    } catch (error) {
+      console.error('[ChatService] Error executing ensemble request:', error);
+      return {
+        success: false,
+        data: this.describeFailure(error),
+        mode,
+        responses: [],
+        agreement: 0,
+        ...this.finishRequest(trace, undefined, error),
+      };
+    }
+  }
+
+  /**
+   * Run the top `size` runnable candidates in parallel, replacing each failure
+   * with the next candidate in rank order
+   * @returns Every model tried, successful or not, in rank order
+   */
+  private async runEnsembleMembers(
+    ranked: (LLMModelData | MediaModelData)[],
+    size: number,
+    messages: ChatMessage[],
+    providerOptions: ProviderRequestOptions,
+    trace: RequestTrace
+  ): Promise<EnsembleMember[]> {
+    const members: EnsembleMember[] = [];
+    let next = 0;
+
+    const runSlot = async () => {
+      while (next < ranked.length) {
+        const rank = next++;
+        // Checked only when the model is reached, so half-open probes are claimed for models actually called
+        if (!this.canAttemptModel(ranked[rank]!, trace)) continue;
+        const model = ranked[rank] as LLMModelData;
+        const attemptStart = Date.now();
+        try {
+          const run = await this.runAttempt(model, (attemptModel, signal) => this.executeLLMModel(attemptModel, messages, { ...providerOptions, ...(signal ? { signal } : {}) }), trace);
+          const latencyMs = Date.now() - attemptStart;
+          this.recordAttemptSuccess(model, run, latencyMs, trace);
+          members.push({ rank, model, run, latencyMs, cost: this.recordExecutionCost({ model, run }, trace) });
+          return;
+        } catch (error) {
+          const latencyMs = Date.now() - attemptStart;
+          this.recordAttemptFailure(model, error, latencyMs, trace);
+          members.push({ rank, model, error: error instanceof Error ? error.message : String(error), latencyMs, cost: 0 });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(size, ranked.length) }, runSlot));
+    return members.sort((a, b) => a.rank - b.rank);
+  }
+
+  /**
+   * Ask a judge model to pick (or merge) the best of the ensemble's answers
+   * @throws Error when no judge is available or its verdict is invalid
+   */
+  private async judgeEnsemble(messages: ChatMessage[], answers: string[], options: EnsembleOptions, trace: RequestTrace): Promise<{ verdict: JudgeVerdict; provider: string; model: string }> {
+    const merge = options.merge ?? false;
+    const prompt = this.ensemble.buildJudgePrompt(this.getAnalysisText(messages), answers, merge);
+    const generation: GenerationOptions = { ...ROUTER_GENERATION, ...(merge ? { maxTokens: 4096 } : {}) };
+    const { value, provider, model } = await this.requestJudge(prompt, JUDGE_SCHEMA, 'judge_verdict', generation, options.judgeModel, 'judge', trace);
+    return { verdict: this.ensemble.parseVerdict(value, answers.length), provider, model };
+  }
+
+  /**
+   * Request structured output from a judge: the requested judge model, or the
+   * router's analysis model by default. The call's cost is added to routing cost.
+   * @throws Error when no judge is available or its output does not match the schema
+   */
+  private async requestJudge(
+    prompt: string,
+    schema: JSONSchema,
+    schemaName: string,
+    generation: GenerationOptions,
+    judgeModel: string | undefined,
+    purpose: SpendPurpose,
+    trace: RequestTrace
+  ): Promise<{ value: unknown; provider: string; model: string }> {
+    if (judgeModel) {
+      const [judge] = this.client.getFilteredModels([], [], 'text', 1, [], { pinnedModel: judgeModel });
+      if (!judge) {
+        throw new Error(`Judge model not available: ${judgeModel}`);
+      }
+      const provider = this.createLimitedProvider(judge.provider_name, this.client.getProviderConfig(judge.provider_name)?.api_key || '');
+      const record = (usage: TokenUsage | undefined) => {
+        if (!usage) return;
+        const costService = this.client.getCostTrackingService();
+        trace.routingCost += costService.record(judge.provider_name, judge.name, purpose, usage, costService.getModelPricing(judge as LLMModelData)).cost;
+      };
+      const { value, usage } = await this.requestStructured(provider, judge.provider_name, this.getApiModelId(judge as LLMModelData), [{ role: 'user', content: prompt }], schema, schemaName, generation, trace.signal, record);
+      record(usage);
+      return { value, provider: judge.provider_name, model: judge.name };
+    }
+
+    const { provider, apiKey, model } = this.getAnalysisProviderConfig();
+    if (!provider || !apiKey || !this.isValidProviderName(provider)) {
+      throw new Error('No analysis provider configured to act as judge');
+    }
+    const judgeProvider = this.createLimitedProvider(provider, apiKey);
+    const record = (usage: TokenUsage | undefined) => this.recordRouterCost(provider, model, purpose, usage, trace);
+    const { value, usage } = await this.requestStructured(judgeProvider, provider, model, [{ role: 'user', content: prompt }], schema, schemaName, generation, trace.signal, record);
+    record(usage);
+    return { value, provider, model };
+  }
+
+  /**
+   * Answer with the cheapest adequate model first and escalate to more accurate
+   * candidates while the verifier scores the answer below the threshold.
+   * When no answer passes, or the budget cannot cover another step on top of
+   * what the cascade has spent, the best-scoring one is returned unverified.
+   * @param request - A single user message or the full conversation history
+   * @param options - Verifier, threshold, step limit, generation parameters and routing constraints
+   */
+  async executeCascade(request: string | ChatMessage[], options: CascadeOptions = {}): Promise<ChatCascadeResponse> {
+    const trace = this.createTrace();
+    const path: CascadeStep[] = [];
+    try {
+      const threshold = options.threshold ?? 0.7;
+      const maxSteps = options.maxSteps ?? 3;
+      if (!(threshold >= 0 && threshold <= 1)) {
+        throw new Error('Cascade threshold must be between 0 and 1');
+      }
+      if (!Number.isInteger(maxSteps) || maxSteps < 1) {
+        throw new Error('Cascade maxSteps must be a positive integer');
+      }
+      const verifier = this.resolveVerifier(options.verifier);
+      const messages = this.normalizeRequest(request);
+      const providerOptions = this.buildProviderOptions(options);
+      this.applyRoutingOptions(trace, messages, options);
+      const { analysis, models } = await this.planRequest(messages, trace);
+
+      // Cheap tier from the cheapest strategy, escalation tier from the most accurate one
+      const selectionStart = Date.now();
+      const registry = this.client.getStrategyRegistry();
+      const selectionContext = this.buildSelectionContext(trace);
+      const tiers: Record<CascadeStep['tier'], (LLMModelData | MediaModelData)[]> = {
+        cheap: await registry.get('cheapest').select(models, analysis, selectionContext),
+        strong: await registry.get('accurate').select(models, analysis, selectionContext),
+      };
+      trace.timing.selectionMs += Date.now() - selectionStart;
+      trace.selected = [...tiers.cheap, ...tiers.strong].map(m => `${m.provider_name}:${m.name}`);
+
+      const tried = new Set<string>();
+      let best: { served: { model: LLMModelData; run: ModelRun<ProviderResult<string>> }; step: CascadeStep } | undefined;
+      const executionStart = Date.now();
+
+      while (path.length < maxSteps) {
+        const cheapLeft = tiers.cheap.filter(m => !tried.has(`${m.provider_name}:${m.name}`));
+        const tier: CascadeStep['tier'] = path.length === 0 && cheapLeft.length > 0 ? 'cheap' : 'strong';
+        let pool = tier === 'cheap' ? cheapLeft : tiers.strong.filter(m => !tried.has(`${m.provider_name}:${m.name}`));
+        if (pool.length > 0 && path.length > 0 && trace.costEstimate) {
+          pool = this.applyEscalationBudget(pool, trace.costEstimate, trace);
+        }
+        if (pool.length === 0) break;
+
+        const stepStart = Date.now();
+        const attemptsBefore = trace.attempts.length;
+        const costBefore = trace.executionCost + trace.routingCost + trace.hedgingCost;
+        const served = await this.executeModelsInOrder(pool, (model, signal) => this.executeLLMModel(model, messages, { ...providerOptions, ...(signal ? { signal } : {}) }), trace);
+        for (const attempt of trace.attempts.slice(attemptsBefore)) {
+          tried.add(`${attempt.provider}:${attempt.model}`);
+        }
+        if (!served) break;
+        this.recordExecutionCost(served, trace);
+
+        const answer = served.run.value.data || '';
+        const result = await this.verifyAnswer(verifier, answer, served.model, messages, providerOptions, options, trace);
+        const step: CascadeStep = {
+          provider: served.model.provider_name,
+          model: served.model.name,
+          tier,
+          score: result.score,
+          ...(result.reason ? { reason: result.reason } : {}),
+          accepted: result.score >= threshold,
+          latencyMs: Date.now() - stepStart,
+          cost: trace.executionCost + trace.routingCost + trace.hedgingCost - costBefore,
+        };
+        path.push(step);
+        if (!best || step.score > best.step.score) {
+          best = { served, step };
+        }
+        if (step.accepted) break;
+        console.log(`[ChatService] Cascade: ${step.provider}:${step.model} scored ${step.score.toFixed(2)} (< ${threshold}) with ${verifier.name} verifier, escalating`);
+      }
+      trace.timing.executionMs = Date.now() - executionStart;
+
+      if (!best) {
+        return {
+          success: false,
+          data: 'All available models failed to execute the request',
+          verified: false,
+          path,
+          ...this.finishRequest(trace),
+        };
+      }
+
+      console.log(`[ChatService] Cascade answered with ${best.step.provider}:${best.step.model} after ${path.length} step(s), verified: ${best.step.accepted}`);
+      return {
+        success: true,
+        data: best.served.run.value.data || '',
+        verified: best.step.accepted,
+        path,
+        ...this.finishRequest(trace, best.served),
+      };
+    } catch (error) {
+      console.error('[ChatService] Error executing cascade request:', error);
+      return {
+        success: false,
+        data: this.describeFailure(error),
+        verified: false,
+        path,
+        ...this.finishRequest(trace, undefined, error),
+      };
+    }
+  }
+
+  /**
+   * Drop escalation candidates the budget cannot afford on top of what the cascade has spent so far
+   */
+  private applyEscalationBudget(pool: (LLMModelData | MediaModelData)[], estimate: CostEstimate, trace: RequestTrace): (LLMModelData | MediaModelData)[] {
+    const spent = trace.executionCost + trace.routingCost + trace.hedgingCost;
+    const { affordable, rejected } = this.client.getBudgetService().partition(pool, estimate, spent);
+    for (const { model, reason } of rejected) {
+      trace.exclusions.push({ provider: model.provider_name, model: model.name, stage: 'budget', reason: reason.message });
+    }
+    if (affordable.length === 0) {
+      console.log(`[ChatService] Cascade: budget leaves no model to escalate to after $${spent.toFixed(6)} spent`);
+    }
+    return affordable;
+  }
+
+  /**
+   * Turn a cascade's verifier option into a verifier (heuristic by default)
+   * @throws Error for an unknown built-in verifier name
+   */
+  private resolveVerifier(verifier: CascadeOptions['verifier']): AnswerVerifier {
+    if (verifier === undefined || verifier === 'heuristic') return new HeuristicVerifier();
+    if (verifier === 'judge') return new JudgeVerifier();
+    if (verifier === 'consistency') return new SelfConsistencyVerifier();
+    if (typeof verifier === 'function') return new ValidationVerifier(verifier);
+    if (typeof verifier === 'string') {
+      throw new Error(`Unknown verifier: ${verifier}`);
+    }
+    return verifier;
+  }
+
+  /**
+   * Score one cascade answer. A verifier that fails scores the answer 0, so the cascade escalates.
+   */
+  private async verifyAnswer(
+    verifier: AnswerVerifier,
+    answer: string,
+    model: LLMModelData,
+    messages: ChatMessage[],
+    providerOptions: ProviderRequestOptions,
+    options: CascadeOptions,
+    trace: RequestTrace
+  ): Promise<VerificationResult> {
+    const context: VerificationContext = {
+      messages,
+      model,
+      judge: async (prompt, schema) =>
+        (await this.requestJudge(prompt, schema, 'answer_grade', ROUTER_GENERATION, options.judgeModel, 'verification', trace)).value,
+      resample: async count => {
+        const sampleOptions: ProviderRequestOptions = {
+          ...providerOptions,
+          generation: { ...providerOptions.generation, temperature: 0.8 },
+          ...(trace.signal ? { signal: trace.signal } : {}),
+        };
+        const samples = await Promise.allSettled(Array.from({ length: count }, () => this.executeLLMModel(model, messages, sampleOptions)));
+        const costService = this.client.getCostTrackingService();
+        const answers: string[] = [];
+        for (const sample of samples) {
+          if (sample.status !== 'fulfilled') continue;
+          if (sample.value.usage) {
+            trace.routingCost += costService.record(model.provider_name, model.name, 'verification', sample.value.usage, costService.getModelPricing(model)).cost;
+          }
+          answers.push(sample.value.value.data || '');
+        }
+        return answers;
+      },
+    };
+
+    try {
+      const result = await verifier.verify(answer, context);
+      return { ...result, score: Math.min(Math.max(result.score, 0), 1) };
+    } catch (error) {
+      console.error(`[ChatService] ${verifier.name} verifier failed:`, error);
+      return { score: 0, reason: `verifier failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
+  /**
+   * Request schema-conforming JSON from a single provider model.
+   * Uses the provider's native JSON mode, repairs malformed output locally,
+   * and re-asks once with the validation error before giving up.
+   * @param providerName - Provider key, for its retry policy
+   * @param recordFailedUsage - Receives the tokens already spent when the method throws, so they are still priced
+   * @returns The validated value, the token usage of every call made and the transient failures retried
+   * @throws Error when the model cannot produce valid output
+   */
+  private async requestStructured(
+    provider: BaseProvider,
+    providerName: string,
+    model: string,
+    messages: ChatMessage[],
+    schema: JSONSchema,
+    schemaName?: string,
+    generation?: GenerationOptions,
+    signal?: AbortSignal,
+    recordFailedUsage?: (usage: TokenUsage) => void
+  ): Promise<ModelRun<unknown>> {
+    const instructed: ChatMessage[] = [
+      { role: 'system', content: this.structuredOutput.buildInstruction(schema) },
+      ...messages,
+    ];
+    const options: ProviderRequestOptions = {
+      responseFormat: { type: 'json', schema, ...(schemaName ? { name: schemaName } : {}) },
+      ...(generation ? { generation } : {}),
+      ...(signal ? { signal } : {}),
+    };
+
+    // Each call retries transient failures before the caller fails over
+    const send = (conversation: ChatMessage[]) =>
+      this.client.getRetryService().run(providerName, () => provider.sendMessage(model, conversation, options), signal);
+
+    const first = await send(instructed);
+    if (!first.success) {
+      throw first.failure ?? new Error(first.error || 'Unknown provider error');
+    }
+
+    const parsed = this.structuredOutput.parse(first.data || '', schema);
+    if (parsed.success) {
+      return { value: parsed.value, usage: first.usage, retries: first.retryCount ?? 0 };
+    }
+
+    console.warn(`[ChatService] Invalid structured output from ${model}, re-asking: ${parsed.error}`);
+    let spent = first.usage;
+    try {
+      const retry = await send([
+        ...instructed,
+        { role: 'assistant', content: first.data || '' },
+        { role: 'user', content: this.structuredOutput.buildRepairPrompt(parsed.error) },
+      ]);
+      if (!retry.success) {
+        throw retry.failure ?? new Error(retry.error || 'Unknown provider error');
+      }
+      spent = addTokenUsage(first.usage, retry.usage);
+
+      const reparsed = this.structuredOutput.parse(retry.data || '', schema);
+      if (!reparsed.success) {
+        throw new Error(reparsed.error);
+      }
+      return { value: reparsed.value, usage: spent, retries: (first.retryCount ?? 0) + (retry.retryCount ?? 0) };
+    } catch (error) {
+      if (spent) recordFailedUsage?.(spent);
+      throw error;
+    }
+  }
+
+  /**
+   * Split chat options into the options passed to providers
+   */
+  private buildProviderOptions(options: ChatOptions): ProviderRequestOptions {
+    const { tools, ...generationFields } = options;
+    const generation: GenerationOptions = {};
+    if (generationFields.temperature !== undefined) generation.temperature = generationFields.temperature;
+    if (generationFields.maxTokens !== undefined) generation.maxTokens = generationFields.maxTokens;
+    if (generationFields.stop?.length) generation.stop = generationFields.stop;
+    if (generationFields.topP !== undefined) generation.topP = generationFields.topP;
+    if (generationFields.seed !== undefined) generation.seed = generationFields.seed;
+
+    return {
+      ...(tools?.length ? { tools } : {}),
+      ...(Object.keys(generation).length > 0 ? { generation } : {}),
+    };
+  }
+
+  /**
+   * Start collecting routing details for a new request
+   */
+  private createTrace(): RequestTrace {
+    return {
+      id: randomUUID(),
+      startedAt: Date.now(),
+      attempts: [],
+      timing: { analysisMs: 0, selectionMs: 0, executionMs: 0, totalMs: 0 },
+      executionCost: 0,
+      routingCost: 0,
+      hedgingCost: 0,
+      expectedOutputTokens: DEFAULT_EXPECTED_OUTPUT_TOKENS,
+      routing: {},
+      candidates: [],
+      exclusions: [],
+      selected: [],
+    };
+  }
+
+  /**
+   * Record a request's expected size and deadline on its trace for budget and latency checks
+   */
+  private applyRoutingOptions(trace: RequestTrace, messages: ChatMessage[], options: RequestOptions): void {
+    trace.routing = options;
+    trace.expectedOutputTokens = options.expectedOutputTokens ?? options.maxTokens ?? DEFAULT_EXPECTED_OUTPUT_TOKENS;
+
+    const deadlines: number[] = [];
+    if (options.maxLatencyMs !== undefined) deadlines.push(trace.startedAt + options.maxLatencyMs);
+    if (options.deadline !== undefined) deadlines.push(options.deadline instanceof Date ? options.deadline.getTime() : options.deadline);
+    trace.deadline = deadlines.length > 0 ? Math.min(...deadlines) : undefined;
+
+    const timeoutMs = options.timeoutMs ?? this.client.getTimeoutSettings().requestMs;
+    const signals = [options.signal, timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined].filter((s): s is AbortSignal => s !== undefined);
+    trace.signal = signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+
+    if (this.client.getBudgetService().isEnabled()) {
+      const costService = this.client.getCostTrackingService();
+      trace.costEstimate = {
+        inputTokens: costService.estimateTokens(messages.map(m => m.content).join('\n')),
+        outputTokens: trace.expectedOutputTokens,
       };
     }
   }
 
+  /**
+   * Multiply the request's cost estimate by the number of model calls it will make
+   */
+  private scaleCostEstimate(trace: RequestTrace, calls: number): void {
+    if (!trace.costEstimate) return;
+    trace.costEstimate = {
+      inputTokens: trace.costEstimate.inputTokens * calls,
+      outputTokens: trace.costEstimate.outputTokens * calls,
+    };
+  }
+
+  /**
+   * Get the message returned to callers for a failed request
+   */
+  private describeFailure(error: unknown): string {
+    if (this.isRoutingRefusal(error) || error instanceof RouterError) {
+      return error.message;
+    }
+    return 'Failed to process request';
+  }
+
+  private isRoutingRefusal(error: unknown): error is RoutingRefusal {
+    return error instanceof BudgetExceededError || error instanceof DeadlineUnreachableError || error instanceof PolicyViolationError;
+  }
+
+  /**
+   * Record the cost of one of the router's own analysis or ranking calls
+   */
+  private recordRouterCost(provider: string, model: string, purpose: SpendPurpose, usage: TokenUsage | undefined, trace?: RequestTrace): void {
+    if (!usage) return;
+    const costService = this.client.getCostTrackingService();
+    const entry = costService.record(provider, model, purpose, usage, costService.findPricing(model));
+    if (trace) {
+      trace.routingCost += entry.cost;
+    }
+  }
+
+  /**
+   * Record the cost of the model that served a request
+   * @returns The recorded cost in USD (0 when the provider reported no usage)
+   */
+  private recordExecutionCost(served: { model: LLMModelData; run: ModelRun<unknown> }, trace: RequestTrace): number {
+    if (!served.run.usage) return 0;
+    const costService = this.client.getCostTrackingService();
+    const entry = costService.record(served.model.provider_name, served.model.name, 'chat', served.run.usage, costService.getModelPricing(served.model));
+    trace.executionCost += entry.cost;
+    return entry.cost;
+  }
+
+  /**
+   * Pass a stream through while counting its output, recording an estimated
+   * cost when it finishes (streaming APIs do not report usage consistently)
+   * @param onCost - Receives the recorded cost in USD once the stream ends
+   */
+  private async *meterStream(stream: AsyncIterable<string>, model: LLMModelData, messages: ChatMessage[], onCost: (cost: number) => void): AsyncIterable<string> {
+    let output = '';
+    try {
+      for await (const chunk of stream) {
+        output += chunk;
+        yield chunk;
+      }
+    } finally {
+      const costService = this.client.getCostTrackingService();
+      const inputTokens = costService.estimateTokens(messages.map(m => m.content).join('\n'));
+      const outputTokens = costService.estimateTokens(output);
+      const entry = costService.record(
+        model.provider_name,
+        model.name,
+        'chat',
+        { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+        costService.getModelPricing(model),
+        true
+      );
+      onCost(entry.cost);
+    }
+  }
+
+  /**
+   * Record the request's routing audit entry and build its response metadata
+   */
+  private finishRequest(trace: RequestTrace, served?: { model: LLMModelData; run: ModelRun<unknown> }, error?: unknown): ChatResponseMetadata {
+    const lastError = trace.attempts.filter(attempt => !attempt.success).pop()?.error;
+    const errorMessage = error instanceof Error ? error.message : (served ? undefined : lastError);
+    this.client.getRoutingAuditService().record({
+      requestId: trace.id,
+      timestamp: trace.startedAt,
+      ...(trace.dataClassification ? { dataClassification: trace.dataClassification } : {}),
+      ...(trace.analysis ? { requestType: trace.analysis.requestType } : {}),
+      candidates: trace.candidates,
+      excluded: trace.exclusions,
+      selected: trace.selected,
+      attempts: trace.attempts,
+      ...(served ? { servedBy: `${served.model.provider_name}:${served.model.name}` } : {}),
+      outcome: served ? 'success' : this.isRoutingRefusal(error) ? 'refused' : 'failed',
+      ...(errorMessage ? { error: errorMessage } : {}),
+    });
+
+    return {
+      requestId: trace.id,
+      ...(served ? { provider: served.model.provider_name, model: served.model.name } : {}),
+      ...(trace.analysis ? { analysis: trace.analysis } : {}),
+      attempts: trace.attempts,
+      timing: { ...trace.timing, totalMs: Date.now() - trace.startedAt },
+      ...(served?.run.usage ? { usage: served.run.usage } : {}),
+      cost: {
+        execution: trace.executionCost,
+        routing: trace.routingCost,
+        hedging: trace.hedgingCost,
+        total: trace.executionCost + trace.routingCost + trace.hedgingCost,
+      },
+      ...(trace.scores ? { scores: trace.scores } : {}),
+      ...(this.isRoutingRefusal(error) || error instanceof RouterError ? { errorDetails: error } : {}),
+    };
+  }
+
+  /**
+   * Normalize and validate the incoming request into a conversation
+   */
+  private normalizeRequest(request: string | ChatMessage[]): ChatMessage[] {
+    const messages = toChatMessages(request);
+    if (messages.length === 0) {
+      throw new Error('Chat request must contain at least one message');
+    }
+    return messages;
+  }
+
+  /**
+   * Analyze the conversation and retrieve the candidate models for it
+   * @param trace - Receives the analysis result and phase timings
+   * @param requiredFeatures - Extra provider capabilities every candidate must have (e.g. 'tools')
+   */
+  private async planRequest(messages: ChatMessage[], trace: RequestTrace, requiredFeatures: string[] = []): Promise<{ analysis: AnalysisResult; models: (LLMModelData | MediaModelData)[] }> {
+    trace.messages = messages;
+    trace.dataClassification = this.client.getCompliancePolicyService().resolveClassification(trace.routing.dataClassification);
+
+    // Refuse before spending on analysis when an overall cap is already used up
+    const exhausted = this.client.getBudgetService().getExhaustedOverallBudget();
+    if (exhausted) {
+      throw exhausted;
+    }
+
+    // Phase 1: LLM analyzes user request to determine relevant metrics and model type
+    const analysisStart = Date.now();
+    const routing = trace.routing;
+    let analysis = routing.skipAnalysis
+      ? this.fallbackAnalysis(this.getAnalysisText(messages))
+      : await this.analyzeRequest(this.getAnalysisText(messages), trace);
+    if (routing.capability) {
+      // Override on a copy: the analysis may be the cached one shared with other requests
+      const modelType = ['image', 'audio', 'video'].includes(routing.capability) ? 'media' : 'llm';
+      analysis = { ...analysis, capability: routing.capability, modelType };
+    }
+    trace.analysis = analysis;
+    trace.timing.analysisMs = Date.now() - analysisStart;
+    console.log(`[ChatService] LLM Analysis: ${analysis.requestType}, Metrics: ${analysis.relevantMetrics.join(', ')}, Model Type: ${analysis.modelType}`);
+    
+    // Phase 2: Filter models based on LLM analysis (relevant metrics + capability + API keys)
+    const filterStart = Date.now();
+    const filters: ModelFilterOptions = {
+      ...(routing.allowProviders ? { allowProviders: routing.allowProviders } : {}),
+      ...(routing.denyProviders ? { denyProviders: routing.denyProviders } : {}),
+      ...(routing.allowModels ? { allowModels: routing.allowModels } : {}),
+      ...(routing.denyModels ? { denyModels: routing.denyModels } : {}),
+      ...(routing.pinnedModel ? { pinnedModel: routing.pinnedModel } : {}),
+    };
+    const models = this.client.getFilteredModels(analysis.relevantMetrics, analysis.priorityMetrics, analysis.capability, 10, requiredFeatures, {
+      ...filters,
+      ...(trace.dataClassification ? { dataClassification: trace.dataClassification } : {}),
+      ...(trace.costEstimate ? { costEstimate: trace.costEstimate } : {}),
+      onExcluded: exclusion => trace.exclusions.push(exclusion),
+    });
+    trace.timing.selectionMs += Date.now() - filterStart;
+
+    if (models.length === 0) {
+      this.explainNoCandidates(analysis, requiredFeatures, filters, trace);
+    }
+    console.log(`[ChatService] Retrieved ${models.length} filtered models based on LLM analysis (capability: ${analysis.capability})`);
+
+    const candidates = this.applyDeadline(models, trace);
+    trace.candidates = candidates.map(m => `${m.provider_name}:${m.name}`);
+    return { analysis, models: candidates };
+  }
+
+  /**
+   * Report a data policy or budget refusal, rather than a generic failure,
+   * when one of those is why filtering left no candidates
+   * @throws PolicyViolationError or BudgetExceededError
+   */
+  private explainNoCandidates(analysis: AnalysisResult, requiredFeatures: string[], filters: ModelFilterOptions, trace: RequestTrace): void {
+    const refilter = (extra: ModelFilterOptions) =>
+      this.client.getFilteredModels(analysis.relevantMetrics, analysis.priorityMetrics, analysis.capability, 10, requiredFeatures, { ...filters, ...extra });
+
+    const classification = trace.dataClassification;
+    const compliant = refilter(classification ? { dataClassification: classification } : {});
+    if (classification && compliant.length === 0 && refilter({}).length > 0) {
+      throw new PolicyViolationError(`No available model satisfies the '${classification}' data classification rules`, classification);
+    }
+
+    if (trace.costEstimate) {
+      const refusal = this.client.getBudgetService().getRefusal(compliant, trace.costEstimate);
+      if (refusal) {
+        throw refusal;
+      }
+    }
+  }
+
+  /**
+   * Drop candidates not predicted to finish before the request's deadline
+   * @throws DeadlineUnreachableError when candidates exist but none can make it
+   */
+  private applyDeadline(models: (LLMModelData | MediaModelData)[], trace: RequestTrace): (LLMModelData | MediaModelData)[] {
+    if (trace.deadline === undefined || models.length === 0) return models;
+
+    const budgetMs = trace.deadline - Date.now();
+    const { meeting, missing } = this.client.getLatencyService().partition(models, budgetMs, trace.expectedOutputTokens);
+    if (missing.length > 0) {
+      console.log(`[ChatService] Deadline excluded ${missing.length} models: ${missing.map(m => `${m.model.provider_name}:${m.model.name} (~${Math.round(m.predictedMs)}ms)`).join(', ')}`);
+      for (const { model, predictedMs } of missing) {
+        trace.exclusions.push({ provider: model.provider_name, model: model.name, stage: 'deadline', reason: `predicted ${Math.round(predictedMs)}ms exceeds ${Math.max(Math.round(budgetMs), 0)}ms remaining` });
+      }
+    }
+
+    if (meeting.length === 0) {
+      const fastest = Math.min(...missing.map(m => m.predictedMs));
+      throw new DeadlineUnreachableError(
+        `No candidate model is predicted to finish within ${Math.max(Math.round(budgetMs), 0)}ms (fastest ~${Math.round(fastest)}ms for ${trace.expectedOutputTokens} output tokens)`,
+        budgetMs,
+        fastest
+      );
+    }
+    return meeting;
+  }
+
   /**
    * Execute user request with circuit breaker logic and smart model selection
+   * @returns The serving model and its result, or null if every candidate failed
    */
-  private async executeWithCircuitBreaker(models: (LLMModelData | MediaModelData)[], userRequest: string, analysis: AnalysisResult): Promise<ChatResponse> {
+  private async executeWithCircuitBreaker<T>(
+    models: (LLMModelData | MediaModelData)[],
+    analysis: AnalysisResult,
+    trace: RequestTrace,
+    runModel: (model: LLMModelData, signal?: AbortSignal) => Promise<ModelRun<T>>
+  ): Promise<{ model: LLMModelData; run: ModelRun<T> } | null> {
     try {
       // Step 1: Use smart model selection with LLM assistance for 'middle' strategy
-      const selectedModels = await this.selectModelsByStrategy(models, analysis);
+      const selectionStart = Date.now();
+      const selectedModels = await this.selectModelsByStrategy(models, analysis, trace);
+      trace.timing.selectionMs += Date.now() - selectionStart;
       console.log(`[ChatService] Smart selection chose ${selectedModels.length} models for execution`);
       
       // Step 2: Execute with circuit breaker logic
-      return await this.executeModelsInOrder(selectedModels, userRequest);
+      const executionStart = Date.now();
+      const served = await this.executeModelsInOrder(selectedModels, runModel, trace);
+      trace.timing.executionMs = Date.now() - executionStart;
+      return served;
     } catch (error) {
+      if (this.isRoutingRefusal(error) || error instanceof RouterError) {
+        throw error;
+      }
       console.error('[ChatService] Error in circuit breaker execution:', error);
       // Fail fast - if selection/execution fails, there's a fundamental issue
       throw new Error(`Circuit breaker execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -270,25 +1433,24 @@ Focus on:
   /**
    * Select models based on user's configuration strategy
    */
-  private async selectModelsByStrategy(models: (LLMModelData | MediaModelData)[], analysis: AnalysisResult): Promise<(LLMModelData | MediaModelData)[]> {
-    const strategy = this.client.getSelectionStrategy();
-    const isRotating = this.client.isRotatingEnabled();
-    
-    console.log(`[ChatService] Using selection strategy: ${strategy}, rotating: ${isRotating}`);
+  private async selectModelsByStrategy(models: (LLMModelData | MediaModelData)[], analysis: AnalysisResult, trace?: RequestTrace): Promise<(LLMModelData | MediaModelData)[]> {
+    const strategyName = trace?.routing.strategy ?? this.client.getSelectionStrategy();
+    const isRotating = trace?.routing.rotating ?? this.client.isRotatingEnabled();
     
     let selectedModels: (LLMModelData | MediaModelData)[];
-    
-    switch (strategy) {
-      case 'cheapest':
-        selectedModels = this.selectCheapestModels(models, analysis);
-        break;
-      case 'accurate':
-        selectedModels = this.selectMostAccurateModels(models, analysis);
-        break;
-      case 'middle':
-      default:
-        selectedModels = await this.selectBalancedModelsWithLLM(models, analysis);
-        break;
+    if (trace?.routing.pinnedModel) {
+      // A pinned model is used as-is; there is nothing to rank
+      console.log(`[ChatService] Using pinned model: ${trace.routing.pinnedModel}`);
+      selectedModels = models;
+    } else {
+      console.log(`[ChatService] Using selection strategy: ${strategyName}, rotating: ${isRotating}`);
+      
+      const strategy = this.client.getStrategyRegistry().get(strategyName);
+      selectedModels = await strategy.select(models, analysis, this.buildSelectionContext(trace));
+    }
+
+    if (trace?.costEstimate) {
+      selectedModels = this.applyBudget(selectedModels, models, trace.costEstimate, trace.exclusions);
     }
     
     // Apply rotation if enabled
@@ -296,109 +1458,99 @@ Focus on:
       selectedModels = this.applyProviderRotation(selectedModels);
     }
     
+    if (trace) trace.selected = selectedModels.map(m => `${m.provider_name}:${m.name}`);
     return selectedModels;
   }
 
   /**
-   * Select cheapest models among those with LLM-selected metrics
+   * Build the context selection strategies run with
    */
-  private selectCheapestModels(models: (LLMModelData | MediaModelData)[], analysis: AnalysisResult): (LLMModelData | MediaModelData)[] {
-    // Among models with LLM-selected metrics, pick the cheapest
-    const relevantMetrics = analysis.relevantMetrics;
-    
-    console.log(`[ChatService] Selecting cheapest models among those with metrics: ${relevantMetrics.join(', ')}`);
-    
-    return models
-      .filter(model => 'price' in model && model.price > 0) // Only models with price info
-      .sort((a, b) => (a as any).price - (b as any).price) // Sort by price (lowest first)
-      .slice(0, 5); // Return top 5 cheapest
+  private buildSelectionContext(trace?: RequestTrace): SelectionContext {
+    return {
+      client: this.client,
+      messages: trace?.messages ?? [],
+      rankWithLLM: (candidates, candidateAnalysis) => this.rankModelsWithLLM(candidates, candidateAnalysis, trace),
+      recordScores: scores => {
+        if (trace) trace.scores = scores;
+      },
+    };
   }
 
   /**
-   * Select most accurate models based on LLM-selected metrics
+   * Drop selected models the budget cannot afford, downgrading to the cheapest
+   * affordable candidates when none of the strategy's picks fit
+   * @throws BudgetExceededError when candidates exist but none fits the budget
    */
-  private selectMostAccurateModels(models: (LLMModelData | MediaModelData)[], analysis: AnalysisResult): (LLMModelData | MediaModelData)[] {
-    // Use the LLM-selected metrics to determine accuracy
-    const relevantMetrics = analysis.relevantMetrics;
-    
-    console.log(`[ChatService] Selecting most accurate models using metrics: ${relevantMetrics.join(', ')}`);
-    
-    return models
-      .sort((a, b) => {
-        // Calculate score based on the specific metrics the LLM said are relevant
-        const aScore = relevantMetrics.reduce((sum, metric) => 
-          sum + (a.evaluations.get(metric) || 0), 0) / relevantMetrics.length;
-        const bScore = relevantMetrics.reduce((sum, metric) => 
-          sum + (b.evaluations.get(metric) || 0), 0) / relevantMetrics.length;
-        
-        console.log(`[ChatService] Model ${a.provider_name}:${a.name} score: ${aScore.toFixed(2)}, Model ${b.provider_name}:${b.name} score: ${bScore.toFixed(2)}`);
-        
-        return bScore - aScore; // Sort by accuracy (highest first)
-      })
-      .slice(0, 5); // Return top 5 most accurate
+  private applyBudget(selectedModels: (LLMModelData | MediaModelData)[], candidates: (LLMModelData | MediaModelData)[], estimate: CostEstimate, exclusions: ModelExclusion[]): (LLMModelData | MediaModelData)[] {
+    const budget = this.client.getBudgetService();
+    const { affordable, rejected } = budget.partition(selectedModels, estimate);
+    if (rejected.length > 0) {
+      console.log(`[ChatService] Budget excluded ${rejected.length} selected models: ${rejected.map(r => `${r.model.provider_name}:${r.model.name}`).join(', ')}`);
+      for (const { model, reason } of rejected) {
+        exclusions.push({ provider: model.provider_name, model: model.name, stage: 'budget', reason: reason.message });
+      }
+    }
+    if (affordable.length > 0) {
+      return affordable;
+    }
+
+    const downgraded = budget.partition(candidates, estimate).affordable
+      .sort((a, b) => budget.estimateCost(a, estimate) - budget.estimateCost(b, estimate))
+      .slice(0, 5);
+    if (downgraded.length > 0) {
+      console.log(`[ChatService] Downgrading to cheaper models within budget: ${downgraded.map(m => `${m.provider_name}:${m.name}`).join(', ')}`);
+      return downgraded;
+    }
+
+    const refusal = budget.getRefusal(candidates, estimate);
+    if (refusal) {
+      throw refusal;
+    }
+    return [];
   }
 
   /**
-   * Select balanced models (best accuracy/price ratio) using LLM-selected metrics
+   * Rank models by accuracy/price balance using the analysis model
+   * (exposed to strategies as SelectionContext.rankWithLLM)
+   * @throws Error when no analysis provider is configured or the ranking call fails
    */
-  private selectBalancedModels(models: (LLMModelData | MediaModelData)[], analysis: AnalysisResult): (LLMModelData | MediaModelData)[] {
-    const relevantMetrics = analysis.relevantMetrics;
+  private async rankModelsWithLLM(models: (LLMModelData | MediaModelData)[], analysis: AnalysisResult, trace?: RequestTrace): Promise<(LLMModelData | MediaModelData)[]> {
+    // Rankings depend on the analysis and the candidate set, not the exact wording
+    const cache = this.client.getDecisionCache();
+    const cacheKey = [
+      analysis.requestType,
+      analysis.relevantMetrics.join(','),
+      analysis.priorityMetrics.join(','),
+      models.map(m => `${m.provider_name}:${m.name}`).sort().join(','),
+    ];
+    const cachedRanking = await cache.get<string[]>('ranking', cacheKey);
+    if (cachedRanking) {
+      console.log('[ChatService] Using cached model ranking');
+      return this.parseModelRankingResponse(cachedRanking, models);
+    }
     
-    console.log(`[ChatService] Selecting balanced models using metrics: ${relevantMetrics.join(', ')}`);
+    const { provider, apiKey, model } = this.getAnalysisProviderConfig();
     
-    return models
-      .filter(model => 'price' in model && model.price > 0) // Only models with price info
-      .map(model => {
-        // Calculate value score using only LLM-selected metrics
-        const relevantScore = relevantMetrics.reduce((sum, metric) => 
-          sum + (model.evaluations.get(metric) || 0), 0) / relevantMetrics.length;
-        const valueScore = relevantScore / (model as any).price;
-        return { model, valueScore, relevantScore };
-      })
-      .sort((a, b) => b.valueScore - a.valueScore) // Sort by highest value score
-      .slice(0, 5) // Return top 5
-      .map(item => {
-        console.log(`[ChatService] Balanced model ${item.model.provider_name}:${item.model.name} - Score: ${item.relevantScore.toFixed(2)}, Price: ${(item.model as any).price}, Value: ${item.valueScore.toFixed(2)}`);
-        return item.model;
-      });
-  }
-
-  /**
-   * Select balanced models using LLM assistance for optimal accuracy/price balance
-   */
-  private async selectBalancedModelsWithLLM(models: (LLMModelData | MediaModelData)[], analysis: AnalysisResult): Promise<(LLMModelData | MediaModelData)[]> {
-    try {
-      // Use LLM to analyze the models and find the best balance
-      const { provider, apiKey, model } = this.getAnalysisProviderConfig();
-      
-      if (!provider || !apiKey) {
-        console.warn('[ChatService] No analysis provider configured, falling back to automatic balance calculation');
-        return this.selectBalancedModels(models, analysis);
-      }
-      
-      // Ensure provider name is valid for createProvider
-      if (!this.isValidProviderName(provider)) {
-        console.warn(`[ChatService] Invalid provider name for analysis: ${provider}, falling back to automatic balance calculation`);
-        return this.selectBalancedModels(models, analysis);
-      }
-      
-      const analysisProvider = createProvider(provider as any, apiKey);
-      
-      const prompt = this.buildModelRankingPrompt(models, analysis);
-      
-      const response = await analysisProvider.sendMessage(model, prompt);
-      
-      if (!response.success || !response.data) {
-        console.warn('[ChatService] LLM ranking failed, falling back to automatic balance calculation');
-        return this.selectBalancedModels(models, analysis);
-      }
-      
-      return this.parseModelRankingResponse(response.data, models, analysis);
-    } catch (error) {
-      console.error('[ChatService] Error in LLM-assisted model selection:', error);
-      // Fallback to automatic balance calculation
-      return this.selectBalancedModels(models, analysis);
+    if (!provider || !apiKey) {
+      throw new Error('No analysis provider configured');
+    }
+    
+    // Ensure provider name is valid for createProvider
+    if (!this.isValidProviderName(provider)) {
+      throw new Error(`Invalid provider name for analysis: ${provider}`);
     }
+    
+    const analysisProvider = this.createLimitedProvider(provider, apiKey);
+    
+    const prompt = this.buildModelRankingPrompt(models, analysis);
+    
+    const record = (usage: TokenUsage | undefined) => this.recordRouterCost(provider, model, 'ranking', usage, trace);
+    const { value, usage } = await this.requestStructured(analysisProvider, provider, model, [{ role: 'user', content: prompt }], RANKING_SCHEMA, 'model_ranking', ROUTER_GENERATION, trace?.signal, record);
+    record(usage);
+    
+    const ranking = (value as { ranking: string[] }).ranking;
+    await cache.set('ranking', cacheKey, ranking);
+    return this.parseModelRankingResponse(ranking, models);
   }
 
   /**
@@ -427,46 +1579,35 @@ Please rank the top 5 models by best accuracy/price balance. Consider:
 - Lower prices are better  
 - Focus on the relevant metrics: ${analysis.relevantMetrics.join(', ')}
 
-Respond with ONLY a JSON array of model names in order of preference:
-["provider:model1", "provider:model2", "provider:model3", "provider:model4", "provider:model5"]`;
+Respond with ONLY a JSON object listing model names in order of preference:
+{"ranking": ["provider:model1", "provider:model2", "provider:model3", "provider:model4", "provider:model5"]}`;
   }
 
   /**
-   * Parse LLM model ranking response
+   * Map a schema-validated model ranking back to model objects
    */
-  private parseModelRankingResponse(response: string, models: (LLMModelData | MediaModelData)[], analysis: AnalysisResult): (LLMModelData | MediaModelData)[] {
-    try {
-      const rankedModelNames = JSON.parse(response);
-      
-      if (!Array.isArray(rankedModelNames)) {
-        throw new Error('Invalid response format');
-      }
-      
-      // Map ranked names back to actual model objects
-      const rankedModels: (LLMModelData | MediaModelData)[] = [];
-      
-      for (const modelName of rankedModelNames) {
-        const [provider, model] = modelName.split(':');
-        const foundModel = models.find(m => m.provider_name === provider && m.name === model);
-        if (foundModel) {
-          rankedModels.push(foundModel);
-        }
+  private parseModelRankingResponse(rankedModelNames: string[], models: (LLMModelData | MediaModelData)[]): (LLMModelData | MediaModelData)[] {
+    // Map ranked names back to actual model objects
+    const rankedModels: (LLMModelData | MediaModelData)[] = [];
+    
+    for (const modelName of rankedModelNames) {
+      const [provider, model] = modelName.split(':');
+      const foundModel = models.find(m => m.provider_name === provider && m.name === model);
+      if (foundModel) {
+        rankedModels.push(foundModel);
       }
-      
-      // If LLM ranking didn't return enough models, fill with remaining ones
-      const remainingModels = models.filter(m => !rankedModels.includes(m));
-      rankedModels.push(...remainingModels.slice(0, 5 - rankedModels.length));
-      
-      return rankedModels.slice(0, 5);
-    } catch (error) {
-      console.error('[ChatService] Error parsing model ranking response:', error);
-      // Fallback to automatic balance calculation
-      return this.selectBalancedModels(models, analysis);
     }
+    
+    // If LLM ranking didn't return enough models, fill with remaining ones
+    const remainingModels = models.filter(m => !rankedModels.includes(m));
+    rankedModels.push(...remainingModels.slice(0, 5 - rankedModels.length));
+    
+    return rankedModels.slice(0, 5);
   }
 
   /**
-   * Apply provider rotation to distribute API usage based on last_used timestamps
+   * Apply provider rotation to distribute API usage based on last_used timestamps.
+   * Providers whose rate limit queue is saturated go last.
    */
   private applyProviderRotation(models: (LLMModelData | MediaModelData)[]): (LLMModelData | MediaModelData)[] {
     // Group models by provider
@@ -485,7 +1626,9 @@ Respond with ONLY a JSON array of model names in order of preference:
       providerName: string;
       models: (LLMModelData | MediaModelData)[];
       lastUsed: number;
+      headroom: number;
     }> = [];
+    const rateLimits = this.client.getRateLimitService();
     
     for (const [providerName, models] of providerGroups) {
       // Check LLM providers first
@@ -503,12 +1646,13 @@ Respond with ONLY a JSON array of model names in order of preference:
       providersWithUsage.push({
         providerName,
         models,
-        lastUsed
+        lastUsed,
+        headroom: rateLimits.getHeadroom(providerName, this.client.getProviderConfig(providerName)?.api_key || '')
       });
     }
     
-    // Sort providers by last_used (oldest first for rotation)
-    providersWithUsage.sort((a, b) => a.lastUsed - b.lastUsed);
+    // Sort providers with spare rate limit headroom first, then by last_used (oldest first for rotation)
+    providersWithUsage.sort((a, b) => Number(a.headroom === 0) - Number(b.headroom === 0) || a.lastUsed - b.lastUsed);
     
     // Build rotated models list, prioritizing least recently used providers
     const rotatedModels: (LLMModelData | MediaModelData)[] = [];
@@ -525,7 +1669,7 @@ Respond with ONLY a JSON array of model names in order of preference:
     }
     
     console.log(`[ChatService] Provider rotation applied. Order: ${providersWithUsage.map(p => 
-      `${p.providerName}(${p.lastUsed ? new Date(p.lastUsed).toISOString() : 'never'})`
+      `${p.providerName}(${p.lastUsed ? new Date(p.lastUsed).toISOString() : 'never'}${p.headroom === 0 ? ', saturated' : ''})`
     ).join(' → ')}`);
     
     return rotatedModels.slice(0, 10); // Return max 10 models
@@ -534,181 +1678,426 @@ Respond with ONLY a JSON array of model names in order of preference:
 
 
   /**
-   * Execute models in order with circuit breaker logic
+   * Execute models in order with circuit breaker logic, or hedged when hedging is enabled
+   * @param runModel - Executes a single candidate; throws to trigger failover. The signal aborts losing hedged calls
+   * @param trace - Receives one attempt entry per model tried; its deadline skips models that can no longer finish in time
+   * @returns The serving model and its result, or null if every candidate failed
    */
-  private async executeModelsInOrder(models: (LLMModelData | MediaModelData)[], userRequest: string): Promise<ChatResponse> {
+  private async executeModelsInOrder<T>(
+    models: (LLMModelData | MediaModelData)[],
+    runModel: (model: LLMModelData, signal?: AbortSignal) => Promise<ModelRun<T>>,
+    trace: RequestTrace
+  ): Promise<{ model: LLMModelData; run: ModelRun<T> } | null> {
+    const hedging = resolveHedgingSettings(this.client.getHedgingSettings(), trace.routing.hedging ?? {});
+    if (hedging.mode !== 'off' && hedging.maxParallel > 1) {
+      const served = await this.executeModelsHedged(models, runModel, trace, hedging);
+      if (!served) this.checkCancelled(trace);
+      return served;
+    }
+    
     for (let i = 0; i < models.length; i++) {
       const model = models[i];
-      if (!model) continue; // Skip undefined models
-      
-      const modelType = 'price_per_1M_input_tokens' in model ? 'LLM' : 'Media';
+      if (!model || !this.canAttemptModel(model, trace)) continue;
       
+      const attemptStart = Date.now();
       try {
-        console.log(`[ChatService] Trying model ${i + 1}/${models.length}: ${model.provider_name}:${model.name} (${modelType})`);
-        
-        if (modelType === 'Media') {
-          // Log media model execution attempt (feature not implemented)
-          console.log(`[ChatService] Would execute media model ${model.provider_name}:${model.name} (feature not implemented)`);
-          continue; // Skip to next model
-        }
-        
-        // Execute LLM model (we know it's LLM at this point)
-        const response = await this.executeLLMModel(model as LLMModelData, userRequest);
-        if (response.success) {
-          console.log(`[ChatService] Successfully executed ${model.provider_name}:${model.name}`);
-          // Reset failure count on success
-          this.resetModelFailures(model);
-          
-          // Update provider usage for rotation (only when rotating is enabled)
-          if (this.client.isRotatingEnabled()) {
-            this.updateProviderUsage(model.provider_name);
-          }
-          
-          return response;
-        }
-        
-        // If we get here, the model failed but didn't throw an error
-        console.log(`[ChatService] Model ${model.provider_name}:${model.name} failed without error`);
+        console.log(`[ChatService] Trying model ${i + 1}/${models.length}: ${model.provider_name}:${model.name} (LLM)`);
         
+        // Execute LLM model (canAttemptModel has ruled out media models)
+        const run = await this.runAttempt(model as LLMModelData, runModel, trace);
+        this.recordAttemptSuccess(model as LLMModelData, run, Date.now() - attemptStart, trace);
+        return { model: model as LLMModelData, run };
       } catch (error) {
-        console.error(`[ChatService] Error executing ${model.provider_name}:${model.name}:`, error);
-        // Implement circuit breaker logic
-        this.recordModelFailure(model, error);
-        
-        // Check if model should be disabled
-        if (this.isModelDisabled(model)) {
-          console.log(`[ChatService] Model ${model.provider_name}:${model.name} is disabled, skipping`);
-          continue;
-        }
+        this.recordAttemptFailure(model, error, Date.now() - attemptStart, trace);
       }
     }
     
-    // All models failed
-    return {
-      success: false,
-      data: 'All available models failed to execute the request'
-    };
+    // All models failed, or the request was cancelled part way
+    this.checkCancelled(trace);
+    return null;
   }
 
   /**
-   * Execute a single LLM model
+   * Execute candidates with overlapping attempts. In 'hedge' mode the next candidate is
+   * launched when those in flight have not answered within delayMs; in 'race' mode up to
+   * maxParallel start at once. A failure launches a replacement straight away. The first
+   * success wins and the rest are aborted; their estimated cost is reported as hedging cost.
+   * @returns The serving model and its result, or null if every candidate failed
    */
-  private async executeLLMModel(model: LLMModelData, userRequest: string): Promise<ChatResponse> {
+  private executeModelsHedged<T>(
+    models: (LLMModelData | MediaModelData)[],
+    runModel: (model: LLMModelData, signal?: AbortSignal) => Promise<ModelRun<T>>,
+    trace: RequestTrace,
+    settings: HedgingSettings
+  ): Promise<{ model: LLMModelData; run: ModelRun<T> } | null> {
+    return new Promise(resolve => {
+      const inFlight = new Map<LLMModelData, { controller: AbortController; startedAt: number }>();
+      let next = 0;
+      let settled = false;
+      let hedgeTimer: ReturnType<typeof setTimeout> | undefined;
+
+      // Start the next candidate that can still be attempted
+      const launchNext = (): boolean => {
+        while (next < models.length) {
+          const model = models[next++];
+          if (!model || !this.canAttemptModel(model, trace)) continue;
+          start(model as LLMModelData);
+          return true;
+        }
+        return false;
+      };
+
+      // Keep the configured number of candidates in flight
+      const fill = () => {
+        const target = settings.mode === 'race' ? settings.maxParallel : 1;
+        while (inFlight.size < target && launchNext()) {}
+      };
+
+      const scheduleHedge = () => {
+        clearTimeout(hedgeTimer);
+        if (settings.mode !== 'hedge' || settled || next >= models.length) return;
+        hedgeTimer = setTimeout(() => {
+          if (settled) return;
+          if (inFlight.size < settings.maxParallel) {
+            console.log(`[ChatService] No response after ${settings.delayMs}ms, hedging with the next candidate`);
+            launchNext();
+          }
+          scheduleHedge();
+        }, settings.delayMs);
+      };
+
+      const settle = (result: { model: LLMModelData; run: ModelRun<T> } | null) => {
+        settled = true;
+        clearTimeout(hedgeTimer);
+        resolve(result);
+      };
+
+      const start = (model: LLMModelData) => {
+        const controller = new AbortController();
+        const startedAt = Date.now();
+        inFlight.set(model, { controller, startedAt });
+        console.log(`[ChatService] Launching ${model.provider_name}:${model.name} (${inFlight.size} in flight, ${settings.mode} mode)`);
+
+        this.runAttempt(model, runModel, trace, controller.signal).then(run => {
+          inFlight.delete(model);
+          if (settled) {
+            // Finished before its abort took effect; its output is not used
+            this.releaseRun(run);
+            return;
+          }
+          this.recordAttemptSuccess(model, run, Date.now() - startedAt, trace);
+          for (const [loser, { controller: loserController, startedAt: loserStartedAt }] of inFlight) {
+            loserController.abort();
+            this.recordHedgeLoser(loser, model, Date.now() - loserStartedAt, trace);
+          }
+          inFlight.clear();
+          settle({ model, run });
+        }, error => {
+          inFlight.delete(model);
+          if (settled) return; // Aborted loser, already recorded
+          this.recordAttemptFailure(model, error, Date.now() - startedAt, trace);
+          fill();
+          if (inFlight.size === 0) {
+            settle(null);
+          } else {
+            scheduleHedge();
+          }
+        });
+      };
+
+      fill();
+      if (inFlight.size === 0) {
+        settle(null);
+        return;
+      }
+      scheduleHedge();
+    });
+  }
+
+  /**
+   * Run one model attempt under the request's signal and the per-attempt timeout.
+   * The attempt is abandoned as soon as either fires, even if the SDK ignores the abort.
+   * @param hedgeSignal - Aborts a hedged attempt another candidate has beaten
+   * @throws TimeoutError when the attempt timed out, AbortedError when the request or hedge was aborted
+   */
+  private async runAttempt<T>(
+    model: LLMModelData,
+    runModel: (model: LLMModelData, signal?: AbortSignal) => Promise<ModelRun<T>>,
+    trace: RequestTrace,
+    hedgeSignal?: AbortSignal
+  ): Promise<ModelRun<T>> {
+    const timeoutMs = trace.routing.attemptTimeoutMs ?? this.client.getTimeoutSettings().attemptMs;
+    const timeout = new AbortController();
+    const timer = timeoutMs > 0
+      ? setTimeout(() => timeout.abort(new TimeoutError(`${model.provider_name}:${model.name} did not respond within ${timeoutMs}ms`, { provider: model.provider_name, model: model.name })), timeoutMs)
+      : undefined;
+    const signals = [trace.signal, hedgeSignal, timer ? timeout.signal : undefined].filter((s): s is AbortSignal => s !== undefined);
+    const signal = signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+
+    let onAbort: (() => void) | undefined;
+    let running: Promise<ModelRun<T>> | undefined;
     try {
-      // Create provider for this model
-      const provider = createProvider(model.provider_name as any, this.client.getProviderConfig(model.provider_name)?.api_key || '');
-      
-      // Send the request
-      const response = await provider.sendMessage(model.name, userRequest);
-      
-      if (response.success) {
-        return {
-          success: true,
-          data: response.data || '',
-        };
-      } else {
-        throw new Error(response.error || 'Unknown provider error');
+      if (!signal) {
+        return await runModel(model);
       }
+      const aborted = new Promise<never>((_, reject) => {
+        onAbort = () => reject(signal.reason);
+        if (signal.aborted) onAbort();
+        else signal.addEventListener('abort', onAbort, { once: true });
+      });
+      running = runModel(model, signal);
+      return await Promise.race([running, aborted]);
     } catch (error) {
-      throw error; // Re-throw to be handled by circuit breaker
+      // A call that lost the race may still finish; release what it opened, since nobody will read it
+      running?.then(run => this.releaseRun(run), () => {});
+      if (timeout.signal.aborted) {
+        // Too slow: counts against the model like any other failure
+        throw timeout.signal.reason;
+      }
+      if (signal?.aborted) {
+        throw error instanceof AbortedError ? error : new AbortedError(`${model.provider_name}:${model.name} aborted`, { provider: model.provider_name, model: model.name, originalError: error });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      if (onAbort) signal?.removeEventListener('abort', onAbort);
     }
   }
 
   /**
-   * Record a model failure in the circuit breaker
+   * Throw the request's cancellation error if the caller aborted it or its timeout passed
    */
-  private recordModelFailure(model: LLMModelData | MediaModelData, error: any): void {
-    const modelKey = `${model.provider_name}:${model.name}`;
-    const currentHealth = this.modelHealth.get(modelKey) || {
-      failures: 0,
-      lastFailure: Date.now(),
-      disabledReason: null,
-    };
-
-    // Increment failure count
-    currentHealth.failures++;
-    currentHealth.lastFailure = Date.now();
+  private checkCancelled(trace: RequestTrace): void {
+    if (!trace.signal?.aborted) return;
+    const reason: unknown = trace.signal.reason;
+    if (reason instanceof RouterError) throw reason;
+    if (reason instanceof Error && reason.name === 'TimeoutError') {
+      throw new TimeoutError(`Request timed out after ${Date.now() - trace.startedAt}ms`, { originalError: reason });
+    }
+    throw new AbortedError('Request cancelled by the caller', { originalError: reason });
+  }
 
-    // Classify error and set disable reason
-    const errorType = this.classifyError(error);
+  /**
+   * Check whether a candidate may be attempted now
+   */
+  private canAttemptModel(model: LLMModelData | MediaModelData, trace: RequestTrace): boolean {
+    // Nothing more is tried once the request is cancelled or out of time
+    if (trace.signal?.aborted) return false;
+    
+    // Custom strategies may return models the request's overrides exclude
+    if (!this.client.isModelPermitted(model, trace.routing)) {
+      console.log(`[ChatService] Skipping ${model.provider_name}:${model.name}: excluded by request routing overrides`);
+      return false;
+    }
+    
+    // After failovers, later candidates may no longer fit in the time left
+    if (trace.deadline !== undefined) {
+      const predictedMs = this.client.getLatencyService().predictMs(model, trace.expectedOutputTokens);
+      if (predictedMs !== undefined && Date.now() + predictedMs > trace.deadline) {
+        console.log(`[ChatService] Skipping ${model.provider_name}:${model.name}: predicted ${Math.round(predictedMs)}ms exceeds the time left before the deadline`);
+        return false;
+      }
+    }
     
-    if (errorType === 'PERMANENT') {
-      currentHealth.disabledReason = 'PERMANENT';
-      console.log(`[ChatService] Model ${modelKey} disabled permanently due to ${currentHealth.failures} consecutive failures.`);
-    } else if (currentHealth.failures >= 3) {
-      // Temporary disable for 15 minutes after 3 failures
-      currentHealth.disabledReason = 'TEMPORARY';
-      currentHealth.disabledUntil = Date.now() + (15 * 60 * 1000); // 15 minutes
-      console.log(`[ChatService] Model ${modelKey} disabled temporarily for 15 minutes due to ${currentHealth.failures} consecutive failures.`);
+    if (!('price_per_1M_input_tokens' in model)) {
+      // Log media model execution attempt (feature not implemented)
+      console.log(`[ChatService] Would execute media model ${model.provider_name}:${model.name} (feature not implemented)`);
+      return false;
     }
+    
+    // Breakers may have opened since selection, and half-open ones admit a limited number of probes
+    if (!this.client.getCircuitBreakerService().tryAcquire(model)) {
+      console.log(`[ChatService] Skipping ${model.provider_name}:${model.name}: circuit breaker open`);
+      return false;
+    }
+    return true;
+  }
 
-    this.modelHealth.set(modelKey, currentHealth);
+  /**
+   * Record a successful attempt: latency observation, circuit breaker reset and rotation usage
+   */
+  private recordAttemptSuccess(model: LLMModelData, run: ModelRun<unknown>, latencyMs: number, trace: RequestTrace): void {
+    trace.attempts.push({
+      provider: model.provider_name,
+      model: model.name,
+      success: true,
+      latencyMs,
+      ...(run.retries ? { retries: run.retries } : {}),
+    });
+    // Streams report time to first chunk with no usage, which compares against time to first token
+    this.client.getLatencyService().recordObservation(model, latencyMs, run.usage?.outputTokens ?? 0);
+    console.log(`[ChatService] Successfully executed ${model.provider_name}:${model.name}`);
+    this.client.getCircuitBreakerService().recordSuccess(model);
+    
+    // Update provider usage for rotation (only when rotating is enabled)
+    if (trace.routing.rotating ?? this.client.isRotatingEnabled()) {
+      this.updateProviderUsage(model.provider_name);
+    }
   }
 
   /**
-   * Reset model failures for a specific model
+   * Record a failed attempt and feed it to the circuit breaker
    */
-  private resetModelFailures(model: LLMModelData | MediaModelData): void {
-    const modelKey = `${model.provider_name}:${model.name}`;
-    const currentHealth = this.modelHealth.get(modelKey);
+  private recordAttemptFailure(model: LLMModelData | MediaModelData, error: unknown, latencyMs: number, trace: RequestTrace): void {
+    console.error(`[ChatService] Error executing ${model.provider_name}:${model.name}:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    trace.attempts.push({
+      provider: model.provider_name,
+      model: model.name,
+      success: false,
+      error: message,
+      ...(error instanceof RouterError ? { errorCode: error.code } : {}),
+      ...(error instanceof RouterError && error.status !== undefined ? { status: error.status } : {}),
+      latencyMs,
+    });
 
-    if (currentHealth) {
-      currentHealth.failures = 0;
-      currentHealth.lastFailure = Date.now();
-      currentHealth.disabledReason = null;
-      delete currentHealth.disabledUntil;
-      console.log(`[ChatService] Model ${modelKey} failures reset to zero.`);
+    const breaker = this.client.getCircuitBreakerService();
+    if (error instanceof QueueTimeoutError || (error instanceof RouterError && error.requestSpecific)) {
+      // Never sent (rate limit queue), or rejected because of this request (too long, filtered, malformed): not the model's health
+      breaker.release(model);
+    } else {
+      breaker.recordFailure(model, message, error instanceof RouterError && error.permanent);
     }
   }
 
   /**
-   * Check if a model is currently disabled
+   * Record a hedged attempt aborted because another candidate answered first.
+   * Providers bill the prompt once it is processed, so its input tokens are
+   * charged (estimated) as hedging cost; partial output is not known.
    */
-  private isModelDisabled(model: LLMModelData | MediaModelData): boolean {
-    const modelKey = `${model.provider_name}:${model.name}`;
-    const currentHealth = this.modelHealth.get(modelKey);
+  private recordHedgeLoser(model: LLMModelData, winner: LLMModelData, latencyMs: number, trace: RequestTrace): void {
+    trace.attempts.push({
+      provider: model.provider_name,
+      model: model.name,
+      success: false,
+      error: `Aborted: ${winner.provider_name}:${winner.name} answered first`,
+      latencyMs,
+    });
+    // Aborting says nothing about the model's health
+    this.client.getCircuitBreakerService().release(model);
 
-    if (!currentHealth) {
-      return false; // Should not happen if recordModelFailure is called
-    }
+    const costService = this.client.getCostTrackingService();
+    const inputTokens = costService.estimateTokens((trace.messages ?? []).map(m => m.content).join('\n'));
+    const entry = costService.record(
+      model.provider_name,
+      model.name,
+      'hedge',
+      { inputTokens, outputTokens: 0, totalTokens: inputTokens },
+      costService.getModelPricing(model),
+      true
+    );
+    trace.hedgingCost += entry.cost;
+  }
 
-    if (currentHealth.disabledReason === 'PERMANENT') {
-      return true;
+  /**
+   * Release a result that will not be used, closing it if it is an open stream
+   */
+  private releaseRun(run: ModelRun<unknown>): void {
+    // Closing the unstarted wrapper generator would not reach the provider's stream, so runs carry their own close
+    run.close?.();
+  }
+
+  /**
+   * Get the API model ID to send to a model's provider
+   * @throws Error when the catalog has no mapping (such models are normally filtered out earlier)
+   */
+  private getApiModelId(model: LLMModelData): string {
+    const apiModelId = this.client.getModelCatalog().getApiModelId(model.provider_name, model.name);
+    if (!apiModelId) {
+      throw new Error(`No API model ID known for ${model.provider_name}:${model.name}`);
     }
+    return apiModelId;
+  }
 
-    if (currentHealth.disabledReason === 'TEMPORARY' && currentHealth.disabledUntil) {
-      const now = Date.now();
-      if (now < currentHealth.disabledUntil) {
-        return true;
-      }
+  /**
+   * Create a provider client whose calls wait for rate limit capacity on its API key
+   */
+  private createLimitedProvider(providerName: string, apiKey: string): BaseProvider {
+    return this.client.getRateLimitService().wrap(createProvider(providerName as any, apiKey), providerName, apiKey);
+  }
+
+  /**
+   * Execute a single LLM model
+   */
+  private async executeLLMModel(model: LLMModelData, messages: ChatMessage[], options: ProviderRequestOptions = {}): Promise<ModelRun<ProviderResult<string>>> {
+    // Create provider for this model
+    const provider = this.createLimitedProvider(model.provider_name, this.client.getProviderConfig(model.provider_name)?.api_key || '');
+    const apiModelId = this.getApiModelId(model);
+    
+    // Send the request, retrying transient failures before failing over
+    const response = await this.client.getRetryService().run(model.provider_name, () => provider.sendMessage(apiModelId, messages, options), options.signal);
+    
+    if (!response.success) {
+      throw this.toAttemptError(response, model);
     }
+    return { value: response, usage: response.usage, retries: response.retryCount ?? 0 };
+  }
 
-    return false;
+  /**
+   * Error for a failed provider call, with any retries made first noted in its message
+   */
+  private toAttemptError(response: ProviderResult<unknown>, model: LLMModelData): RouterError {
+    const failure = response.failure
+      ?? createRouterError('unknown', response.error || 'Unknown provider error', { provider: model.provider_name, model: model.name });
+    if (!response.retryCount) {
+      return failure;
+    }
+    return createRouterError(failure.code, `${failure.message} (after ${response.retryCount} ${response.retryCount === 1 ? 'retry' : 'retries'})`, {
+      ...(failure.status !== undefined ? { status: failure.status } : {}),
+      ...(failure.provider !== undefined ? { provider: failure.provider } : {}),
+      ...(failure.model !== undefined ? { model: failure.model } : {}),
+      originalError: failure.originalError ?? failure,
+    });
   }
 
   /**
-   * Classify error as permanent or temporary
+   * Open a stream on a single LLM model and wait for its first chunk.
+   * Errors before the first chunk throw so the caller can fail over.
    */
-  private classifyError(error: any): 'TEMPORARY' | 'PERMANENT' {
-    const errorMessage = error?.message?.toLowerCase() || '';
-    const statusCode = error?.status || error?.statusCode;
+  private async executeLLMModelStream(model: LLMModelData, messages: ChatMessage[], options: ProviderRequestOptions = {}): Promise<ModelRun<AsyncIterable<string>>> {
+    const provider = this.createLimitedProvider(model.provider_name, this.client.getProviderConfig(model.provider_name)?.api_key || '');
 
-    // Permanent errors (API key issues)
-    if (statusCode >= 400 && statusCode <= 403) return 'PERMANENT';
-    if (errorMessage.includes('permission_denied') || 
-        errorMessage.includes('access_denied') ||
-        errorMessage.includes('insufficient_quota') ||
-        errorMessage.includes('authentication_error') ||
-        errorMessage.includes('auth_error') ||
-        errorMessage.includes('model_not_found') ||
-        errorMessage.includes('billing_required')) {
-      return 'PERMANENT';
+    const apiModelId = this.getApiModelId(model);
+    const response = await this.client.getRetryService().run(model.provider_name, () => provider.streamMessage(apiModelId, messages, options), options.signal);
+    if (!response.success || !response.data) {
+      throw this.toAttemptError(response, model);
     }
 
-    // Temporary errors (service issues)
-    return 'TEMPORARY';
+    const iterator = response.data[Symbol.asyncIterator]();
+    const first = await iterator.next();
+    if (first.done) {
+      throw new Error('Stream ended before producing any output');
+    }
+
+    return {
+      value: this.resumeStream(first.value, iterator),
+      retries: response.retryCount ?? 0,
+      close: () => void iterator.return?.().catch(() => {}),
+    };
+  }
+
+  /**
+   * Re-emit an already consumed first chunk followed by the rest of the stream
+   */
+  private async *resumeStream(first: string, iterator: AsyncIterator<string>): AsyncIterable<string> {
+    try {
+      yield first;
+      while (true) {
+        const next = await iterator.next();
+        if (next.done) return;
+        yield next.value;
+      }
+    } finally {
+      // Release the upstream connection if the consumer stops early
+      await iterator.return?.();
+    }
   }
 
+  /**
+   * Stream that yields nothing, used for failed streaming responses
+   */
+  private async *emptyStream(): AsyncIterable<string> {}
+
   /**
    * Update provider usage timestamp for rotation
    */
@@ -729,11 +2118,4 @@ Respond with ONLY a JSON array of model names in order of preference:
       mediaProvider.last_used = new Date();
     }
   }
-
-  /**
-   * Get current circuit breaker status for debugging
-   */
-  getCircuitBreakerStatus(): Map<string, any> {
-    return new Map(this.modelHealth);
-  }
 }
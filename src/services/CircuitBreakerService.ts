@@ -0,0 +1,247 @@
+import type { LLMModelData, MediaModelData } from '../client.js';
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+export type BreakerScope = 'model' | 'provider';
+
+export interface CircuitBreakerSettings {
+  failureThreshold: number; // Consecutive failures that open a model's breaker
+  providerFailureThreshold: number; // Consecutive failures across a provider's models that open the provider's breaker
+  cooldownMs: number; // How long an open breaker rejects requests before letting a probe through
+  maxCooldownMs: number; // The cooldown doubles after each failed probe, up to this
+  halfOpenMaxProbes: number; // Requests let through at once while half-open
+}
+
+// Snapshot of one breaker
+export interface BreakerStatus {
+  key: string; // 'provider:model' for model breakers, the provider key for provider breakers
+  scope: BreakerScope;
+  state: BreakerState;
+  failures: number; // Consecutive failures
+  lastFailure?: number;
+  lastError?: string;
+  openUntil?: number; // When an open breaker next lets a probe through; unset when permanent
+  permanent: boolean; // Opened by an error that will not clear by itself (e.g. bad API key); only reset() closes it
+  trips: number; // Times the breaker has opened
+}
+
+export interface BreakerStateChange {
+  key: string;
+  scope: BreakerScope;
+  from: BreakerState;
+  to: BreakerState;
+  reason: string;
+  timestamp: number;
+}
+
+export type BreakerListener = (change: BreakerStateChange) => void;
+
+interface Breaker extends BreakerStatus {
+  cooldownMs: number; // Current cooldown, doubled by failed probes
+  probes: number; // Requests in flight while half-open
+}
+
+const DEFAULT_SETTINGS: CircuitBreakerSettings = {
+  failureThreshold: 3,
+  providerFailureThreshold: 5,
+  cooldownMs: 15 * 60 * 1000,
+  maxCooldownMs: 60 * 60 * 1000,
+  halfOpenMaxProbes: 1,
+};
+
+/**
+ * Circuit breakers per model and per provider. An open breaker removes its
+ * models from routing; after the cooldown it goes half-open and lets a probe
+ * through, closing on success and reopening with a longer cooldown on failure.
+ */
+export class CircuitBreakerService {
+  private settings: CircuitBreakerSettings;
+  private breakers: Map<string, Breaker> = new Map(); // Keyed by `${scope}|${key}`
+  private listeners: Set<BreakerListener> = new Set();
+
+  constructor(settings: Partial<CircuitBreakerSettings> = {}) {
+    this.settings = { ...DEFAULT_SETTINGS, ...settings };
+  }
+
+  setSettings(settings: Partial<CircuitBreakerSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    console.log('[CircuitBreaker] Settings updated:', this.settings);
+  }
+
+  getSettings(): CircuitBreakerSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Subscribe to breaker state changes
+   * @returns A function that unsubscribes the listener
+   */
+  onStateChange(listener: BreakerListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Check whether a model may be routed to: neither its own nor its provider's
+   * breaker is open. Open breakers whose cooldown has passed move to half-open.
+   */
+  isAvailable(model: LLMModelData | MediaModelData): boolean {
+    return this.getBreakersFor(model).every(breaker => this.admits(breaker));
+  }
+
+  /**
+   * Claim a request slot for a model about to be called. Half-open breakers
+   * only let a limited number of probes through at once.
+   * @returns false when the model must be skipped; otherwise the caller must
+   * report the outcome with recordSuccess, recordFailure or release
+   */
+  tryAcquire(model: LLMModelData | MediaModelData): boolean {
+    const breakers = this.getBreakersFor(model);
+    if (!breakers.every(breaker => this.admits(breaker) && (breaker.state !== 'half_open' || breaker.probes < this.settings.halfOpenMaxProbes))) {
+      return false;
+    }
+    for (const breaker of breakers) {
+      if (breaker.state === 'half_open') breaker.probes++;
+    }
+    return true;
+  }
+
+  /**
+   * Give back a slot claimed with tryAcquire without an outcome (e.g. an aborted hedged call)
+   */
+  release(model: LLMModelData | MediaModelData): void {
+    for (const breaker of this.getBreakersFor(model)) {
+      breaker.probes = Math.max(0, breaker.probes - 1);
+    }
+  }
+
+  /**
+   * Record a successful call, closing the model's and provider's breakers
+   */
+  recordSuccess(model: LLMModelData | MediaModelData): void {
+    for (const breaker of this.getBreakersFor(model)) {
+      breaker.probes = Math.max(0, breaker.probes - 1);
+      breaker.failures = 0;
+      breaker.cooldownMs = this.settings.cooldownMs;
+      if (breaker.state !== 'closed') {
+        this.transition(breaker, 'closed', 'call succeeded');
+      }
+    }
+    this.syncModel(model);
+  }
+
+  /**
+   * Record a failed call, opening breakers that reach their threshold
+   * @param permanent - The error will not clear by itself; the model's breaker opens until reset
+   */
+  recordFailure(model: LLMModelData | MediaModelData, error: string, permanent: boolean = false): void {
+    const now = Date.now();
+    for (const breaker of this.getBreakersFor(model)) {
+      breaker.probes = Math.max(0, breaker.probes - 1);
+      breaker.failures++;
+      breaker.lastFailure = now;
+      breaker.lastError = error;
+
+      if (permanent && breaker.scope === 'model') {
+        breaker.permanent = true;
+        delete breaker.openUntil;
+        if (breaker.state !== 'open') this.open(breaker, `permanent error: ${error}`);
+      } else if (breaker.state === 'half_open') {
+        breaker.cooldownMs = Math.min(breaker.cooldownMs * 2, this.settings.maxCooldownMs);
+        this.open(breaker, `probe failed: ${error}`);
+      } else if (breaker.state === 'closed') {
+        const threshold = breaker.scope === 'model' ? this.settings.failureThreshold : this.settings.providerFailureThreshold;
+        if (breaker.failures >= threshold) {
+          this.open(breaker, `${breaker.failures} consecutive failures, last: ${error}`);
+        }
+      }
+    }
+    this.syncModel(model);
+  }
+
+  /**
+   * Get a snapshot of every breaker that has seen a failure
+   */
+  getStatus(): BreakerStatus[] {
+    return [...this.breakers.values()]
+      .filter(breaker => breaker.trips > 0 || breaker.failures > 0)
+      .map(({ cooldownMs, probes, ...status }) => ({ ...status }));
+  }
+
+  /**
+   * Close a breaker (or all breakers) and clear its failure history
+   * @param key - 'provider:model' or a provider key; omit to reset everything
+   */
+  reset(key?: string): void {
+    for (const [id, breaker] of this.breakers) {
+      if (key !== undefined && breaker.key !== key) continue;
+      if (breaker.state !== 'closed') {
+        this.transition(breaker, 'closed', 'reset');
+      }
+      this.breakers.delete(id);
+    }
+  }
+
+  private getBreakersFor(model: LLMModelData | MediaModelData): Breaker[] {
+    return [
+      this.getBreaker('provider', model.provider_name),
+      this.getBreaker('model', `${model.provider_name}:${model.name}`),
+    ];
+  }
+
+  private getBreaker(scope: BreakerScope, key: string): Breaker {
+    const id = `${scope}|${key}`;
+    let breaker = this.breakers.get(id);
+    if (!breaker) {
+      breaker = { key, scope, state: 'closed', failures: 0, permanent: false, trips: 0, cooldownMs: this.settings.cooldownMs, probes: 0 };
+      this.breakers.set(id, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Whether a breaker lets requests through, moving it to half-open once its cooldown has passed
+   */
+  private admits(breaker: Breaker): boolean {
+    if (breaker.state !== 'open') return true;
+    if (breaker.permanent || breaker.openUntil === undefined || Date.now() < breaker.openUntil) return false;
+    this.transition(breaker, 'half_open', 'cooldown elapsed');
+    breaker.probes = 0;
+    return true;
+  }
+
+  private open(breaker: Breaker, reason: string): void {
+    breaker.trips++;
+    if (!breaker.permanent) {
+      breaker.openUntil = Date.now() + breaker.cooldownMs;
+    }
+    this.transition(breaker, 'open', reason);
+  }
+
+  private transition(breaker: Breaker, to: BreakerState, reason: string): void {
+    const change: BreakerStateChange = { key: breaker.key, scope: breaker.scope, from: breaker.state, to, reason, timestamp: Date.now() };
+    breaker.state = to;
+    if (to === 'closed') {
+      breaker.permanent = false;
+      delete breaker.openUntil;
+    }
+    console.log(`[CircuitBreaker] ${breaker.scope} ${breaker.key}: ${change.from} -> ${to} (${reason})`);
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error('[CircuitBreaker] State change listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Mirror the model breaker onto the model's health fields
+   */
+  private syncModel(model: LLMModelData | MediaModelData): void {
+    const breaker = this.getBreaker('model', `${model.provider_name}:${model.name}`);
+    model.failures = breaker.failures;
+    if (breaker.lastFailure !== undefined) model.lastFailure = breaker.lastFailure;
+    model.disabledUntil = breaker.state === 'open' ? breaker.openUntil : undefined;
+    model.disabledReason = breaker.state !== 'open' ? null : breaker.permanent ? 'PERMANENT' : 'TEMPORARY';
+  }
+}
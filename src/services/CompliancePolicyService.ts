@@ -0,0 +1,150 @@
+import { PROVIDER_CONFIGS } from '../providers/base.js';
+import type { CompliancePolicy } from '../providers/base.js';
+import type { LLMModelData, MediaModelData } from '../client.js';
+
+// What a data classification requires of the provider and model handling it
+export interface DataClassificationRule {
+  allowedProviders?: string[]; // Vendor allowlist; omitted means any provider
+  allowedRegions?: string[]; // Every processing region must be in this list
+  requireZeroDataRetention?: boolean;
+  requireTrainingOptOut?: boolean;
+  requiredCertifications?: string[];
+}
+
+export interface ComplianceConfig {
+  classifications?: Record<string, DataClassificationRule>; // Added to (or replacing) the built-in classes
+  defaultClassification?: string; // Applied to requests that do not set one
+  providerPolicies?: Record<string, Partial<CompliancePolicy>>; // Provider key -> policy overrides
+  modelPolicies?: Record<string, Partial<CompliancePolicy>>; // 'provider:model' -> policy overrides
+}
+
+/**
+ * Raised when a request's data classification rules out every candidate model,
+ * or names a classification that is not configured.
+ */
+export class PolicyViolationError extends Error {
+  constructor(
+    message: string,
+    public classification: string
+  ) {
+    super(message);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+// Built-in data classes, from least to most sensitive
+const DEFAULT_CLASSIFICATIONS: Record<string, DataClassificationRule> = {
+  public: {},
+  internal: { requireTrainingOptOut: true },
+  confidential: { requireTrainingOptOut: true, requiredCertifications: ['SOC2'] },
+  restricted: { requireTrainingOptOut: true, requireZeroDataRetention: true, requiredCertifications: ['SOC2'] },
+};
+
+// Policy assumed for providers without compliance metadata: satisfies nothing beyond 'public'
+const UNKNOWN_POLICY: CompliancePolicy = { regions: [], zeroDataRetention: false, trainingOptOut: false, certifications: [] };
+
+export class CompliancePolicyService {
+  private classifications: Record<string, DataClassificationRule>;
+  private defaultClassification: string | undefined;
+  private providerPolicies: Map<string, Partial<CompliancePolicy>> = new Map();
+  private modelPolicies: Map<string, Partial<CompliancePolicy>> = new Map();
+
+  constructor(config: ComplianceConfig = {}) {
+    this.classifications = { ...DEFAULT_CLASSIFICATIONS, ...config.classifications };
+    this.defaultClassification = config.defaultClassification;
+    for (const [providerName, policy] of Object.entries(config.providerPolicies ?? {})) {
+      this.providerPolicies.set(providerName, policy);
+    }
+    for (const [modelKey, policy] of Object.entries(config.modelPolicies ?? {})) {
+      this.modelPolicies.set(modelKey, policy);
+    }
+  }
+
+  /**
+   * Get a provider's policy: its PROVIDER_CONFIGS defaults with any overrides applied
+   */
+  getProviderPolicy(providerName: string): CompliancePolicy {
+    const defaults = providerName in PROVIDER_CONFIGS
+      ? PROVIDER_CONFIGS[providerName as keyof typeof PROVIDER_CONFIGS].policy
+      : UNKNOWN_POLICY;
+    return { ...defaults, ...this.providerPolicies.get(providerName) };
+  }
+
+  /**
+   * Get a model's effective policy: its provider's policy with model overrides applied
+   */
+  getModelPolicy(model: LLMModelData | MediaModelData): CompliancePolicy {
+    return {
+      ...this.getProviderPolicy(model.provider_name),
+      ...this.modelPolicies.get(`${model.provider_name}:${model.name}`),
+    };
+  }
+
+  setProviderPolicy(providerName: string, policy: Partial<CompliancePolicy>): void {
+    this.providerPolicies.set(providerName, { ...this.providerPolicies.get(providerName), ...policy });
+    console.log(`[Compliance] Updated policy for provider ${providerName}`);
+  }
+
+  setModelPolicy(providerName: string, modelName: string, policy: Partial<CompliancePolicy>): void {
+    const key = `${providerName}:${modelName}`;
+    this.modelPolicies.set(key, { ...this.modelPolicies.get(key), ...policy });
+    console.log(`[Compliance] Updated policy for model ${key}`);
+  }
+
+  setClassificationRule(classification: string, rule: DataClassificationRule): void {
+    this.classifications[classification] = rule;
+    console.log(`[Compliance] Updated rule for data classification ${classification}`);
+  }
+
+  getClassifications(): Record<string, DataClassificationRule> {
+    return { ...this.classifications };
+  }
+
+  /**
+   * Resolve the classification a request is handled under
+   * @returns The requested or default classification, or undefined when neither is set
+   * @throws PolicyViolationError for a classification with no configured rule
+   */
+  resolveClassification(requested?: string): string | undefined {
+    const classification = requested ?? this.defaultClassification;
+    if (classification !== undefined && !(classification in this.classifications)) {
+      throw new PolicyViolationError(`Unknown data classification: ${classification}`, classification);
+    }
+    return classification;
+  }
+
+  /**
+   * List the ways a model breaks a classification's rules
+   * @returns Human-readable violations; empty when the model is allowed
+   */
+  check(model: LLMModelData | MediaModelData, classification: string): string[] {
+    const rule = this.classifications[classification];
+    if (!rule) return [`unknown data classification ${classification}`];
+
+    const policy = this.getModelPolicy(model);
+    const violations: string[] = [];
+
+    if (rule.allowedProviders && !rule.allowedProviders.includes(model.provider_name)) {
+      violations.push(`provider ${model.provider_name} is not approved`);
+    }
+    if (rule.allowedRegions) {
+      const outside = policy.regions.filter(region => !rule.allowedRegions!.includes(region));
+      if (policy.regions.length === 0 || outside.length > 0) {
+        violations.push(`processes data outside ${rule.allowedRegions.join('/')} (${policy.regions.join(', ') || 'unknown region'})`);
+      }
+    }
+    if (rule.requireZeroDataRetention && !policy.zeroDataRetention) {
+      violations.push('no zero-data-retention');
+    }
+    if (rule.requireTrainingOptOut && !policy.trainingOptOut) {
+      violations.push('data may be used for training');
+    }
+    for (const certification of rule.requiredCertifications ?? []) {
+      if (!policy.certifications.includes(certification)) {
+        violations.push(`missing ${certification} certification`);
+      }
+    }
+
+    return violations;
+  }
+}
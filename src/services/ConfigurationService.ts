@@ -1,3 +1,6 @@
+import { DEFAULT_SCORING_WEIGHTS, resolveScoringWeights } from '../strategies/scoring.js';
+import type { ScoringWeights } from '../strategies/scoring.js';
+
 export interface ModelSelectionSettings {
   cheapest: boolean;
   accurate: boolean;
@@ -5,10 +8,50 @@ export interface ModelSelectionSettings {
   rotating: boolean;
 }
 
-export type SelectionStrategy = 'cheapest' | 'accurate' | 'middle';
+// How requests are analyzed before routing
+export interface AnalysisSettings {
+  mode: 'auto' | 'local' | 'llm'; // auto: local classifier, LLM only below the confidence threshold
+  confidenceThreshold: number; // 0-1
+}
+
+// How candidate models are run once selected
+export interface HedgingSettings {
+  mode: 'off' | 'hedge' | 'race'; // hedge: start the next candidate after delayMs; race: start maxParallel at once
+  delayMs: number; // How long a candidate may go unanswered before the next one is launched
+  maxParallel: number; // Most candidates in flight at once
+}
+
+// Time limits for requests and provider calls, in milliseconds; 0 disables a limit
+export interface TimeoutSettings {
+  requestMs: number; // Whole request, including analysis and failover; aborts whatever is in flight
+  attemptMs: number; // One model attempt (time to first chunk when streaming) before failing over
+  dataFetchMs: number; // Each Artificial Analysis API call when loading benchmark data
+}
+
+export type BuiltInStrategyName = 'cheapest' | 'accurate' | 'middle';
+
+/**
+ * Validate hedging settings, filling unspecified fields from a base
+ * @throws Error if delayMs is negative or maxParallel is not a positive integer
+ */
+export function resolveHedgingSettings(base: HedgingSettings, settings: Partial<HedgingSettings>): HedgingSettings {
+  const resolved = { ...base, ...settings };
+  if (!(resolved.delayMs >= 0)) {
+    throw new Error('delayMs must be zero or more');
+  }
+  if (!Number.isInteger(resolved.maxParallel) || resolved.maxParallel < 1) {
+    throw new Error('maxParallel must be a positive integer');
+  }
+  return resolved;
+}
 
 export class ConfigurationService {
   private modelSelection: ModelSelectionSettings;
+  private customStrategy: string | null = null; // Registered strategy name that overrides the built-in flags
+  private scoringWeights: ScoringWeights = { ...DEFAULT_SCORING_WEIGHTS }; // Used by the 'weighted' strategy
+  private analysisSettings: AnalysisSettings = { mode: 'auto', confidenceThreshold: 0.6 };
+  private hedgingSettings: HedgingSettings = { mode: 'off', delayMs: 2000, maxParallel: 2 };
+  private timeoutSettings: TimeoutSettings = { requestMs: 0, attemptMs: 120000, dataFetchMs: 30000 };
   private maxAge: number;
   private staleCleanUp: boolean;
 
@@ -48,6 +91,11 @@ export class ConfigurationService {
       settings.middle = true;
     }
     
+    // Choosing a built-in strategy replaces any custom one
+    if (settings.cheapest || settings.accurate || settings.middle) {
+      this.customStrategy = null;
+    }
+    
     // Apply the settings
     this.modelSelection = { ...this.modelSelection, ...settings };
     
@@ -62,14 +110,78 @@ export class ConfigurationService {
   }
 
   /**
-   * Get the active selection strategy
+   * Use a registered strategy by name instead of the built-in flags
+   * @param name - Strategy name, or null to return to the built-in flags
+   */
+  setCustomStrategy(name: string | null): void {
+    this.customStrategy = name;
+    console.log(`Selection strategy ${name ? `set to ${name}` : 'reset to built-in flags'}`);
+  }
+
+  /**
+   * Get the name of the active selection strategy
    */
-  getSelectionStrategy(): SelectionStrategy {
+  getSelectionStrategy(): string {
+    if (this.customStrategy) return this.customStrategy;
     if (this.modelSelection.cheapest) return 'cheapest';
     if (this.modelSelection.accurate) return 'accurate';
     return 'middle'; // Default fallback
   }
 
+  /**
+   * Set objective weights for the 'weighted' strategy; unspecified objectives use the defaults
+   * @throws Error if any weight is negative or all are zero
+   */
+  setScoringWeights(weights: Partial<ScoringWeights>): void {
+    this.scoringWeights = resolveScoringWeights(weights);
+    console.log('Scoring weights updated:', this.scoringWeights);
+  }
+
+  getScoringWeights(): ScoringWeights {
+    return { ...this.scoringWeights };
+  }
+
+  /**
+   * Set how requests are analyzed
+   * @throws Error if the confidence threshold is outside 0-1
+   */
+  setAnalysisSettings(settings: Partial<AnalysisSettings>): void {
+    const updated = { ...this.analysisSettings, ...settings };
+    if (!(updated.confidenceThreshold >= 0 && updated.confidenceThreshold <= 1)) {
+      throw new Error('confidenceThreshold must be between 0 and 1');
+    }
+    this.analysisSettings = updated;
+    console.log('Analysis settings updated:', this.analysisSettings);
+  }
+
+  getAnalysisSettings(): AnalysisSettings {
+    return { ...this.analysisSettings };
+  }
+
+  setHedgingSettings(settings: Partial<HedgingSettings>): void {
+    this.hedgingSettings = resolveHedgingSettings(this.hedgingSettings, settings);
+    console.log('Hedging settings updated:', this.hedgingSettings);
+  }
+
+  getHedgingSettings(): HedgingSettings {
+    return { ...this.hedgingSettings };
+  }
+
+  setTimeoutSettings(settings: Partial<TimeoutSettings>): void {
+    const updated = { ...this.timeoutSettings, ...settings };
+    for (const [name, value] of Object.entries(updated)) {
+      if (!(value >= 0)) {
+        throw new Error(`${name} must be zero or more`);
+      }
+    }
+    this.timeoutSettings = updated;
+    console.log('Timeout settings updated:', this.timeoutSettings);
+  }
+
+  getTimeoutSettings(): TimeoutSettings {
+    return { ...this.timeoutSettings };
+  }
+
   /**
    * Check if rotating is enabled
    */
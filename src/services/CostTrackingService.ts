@@ -0,0 +1,261 @@
+import type { LLMModelData } from '../client.js';
+import type { TokenUsage } from '../providers/base.js';
+
+// What a recorded call was for
+export type SpendPurpose = 'chat' | 'analysis' | 'ranking' | 'hedge' | 'judge' | 'verification';
+
+// A single priced call in the spend ledger
+export interface SpendEntry {
+  timestamp: number;
+  provider: string;
+  model: string;
+  purpose: SpendPurpose;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // USD
+  estimated: boolean; // True when token counts were estimated rather than reported
+}
+
+// Filter for ledger queries; time bounds are inclusive epoch milliseconds or Dates
+export interface SpendFilter {
+  provider?: string;
+  model?: string;
+  purpose?: SpendPurpose;
+  since?: number | Date;
+  until?: number | Date;
+}
+
+// Aggregated spend over a set of ledger entries
+export interface SpendSummary {
+  totalCost: number;
+  inputTokens: number;
+  outputTokens: number;
+  requests: number;
+  byProvider: Record<string, number>;
+  byModel: Record<string, number>; // Keyed by "provider:model"
+  byPurpose: Record<string, number>;
+}
+
+// Spend for one time bucket
+export interface SpendWindow {
+  start: Date;
+  totalCost: number;
+  requests: number;
+}
+
+export type SpendInterval = 'hour' | 'day' | 'month';
+
+// Prices in USD per 1M tokens for a model
+export interface TokenPricing {
+  input: number;
+  output: number;
+}
+
+// Published prices for the router's default analysis models, used when the
+// benchmark data has no entry that matches the API model id
+const DEFAULT_PRICING: Record<string, TokenPricing> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'command-r-plus': { input: 2.5, output: 10 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+};
+
+export class CostTrackingService {
+  private llmProviders: Map<string, any>; // Will be passed from RouterClient
+  private entries: SpendEntry[] = [];
+  private maxEntries: number;
+  // Running spend for the current UTC day and month, keyed by `${interval}|${provider or '*'}`; unlike the ledger, never trimmed
+  private periodTotals: Map<string, { start: number; cost: number }> = new Map();
+
+  constructor(llmProviders: Map<string, any>, maxEntries: number = 100000) {
+    this.llmProviders = llmProviders;
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Calculate the cost in USD of a call from its token usage
+   */
+  calculateCost(pricing: TokenPricing, usage: TokenUsage): number {
+    return (usage.inputTokens / 1_000_000) * pricing.input + (usage.outputTokens / 1_000_000) * pricing.output;
+  }
+
+  /**
+   * Get per-token pricing from benchmark model data
+   */
+  getModelPricing(model: LLMModelData): TokenPricing {
+    return {
+      input: model.price_per_1M_input_tokens || 0,
+      output: model.price_per_1M_output_tokens || 0,
+    };
+  }
+
+  /**
+   * Find pricing for an API model id that is not tied to benchmark model data
+   * (e.g. the router's own analysis model). Matches benchmark names loosely,
+   * so "gpt-3.5-turbo" finds "GPT-3.5 Turbo".
+   */
+  findPricing(modelId: string): TokenPricing | undefined {
+    const normalizedId = this.normalizeModelName(modelId);
+    for (const [, provider] of this.llmProviders) {
+      for (const [modelName, modelData] of provider.models) {
+        if (this.normalizeModelName(modelName) === normalizedId) {
+          return this.getModelPricing(modelData);
+        }
+      }
+    }
+    return DEFAULT_PRICING[modelId];
+  }
+
+  /**
+   * Rough token estimate for text when a provider reports no usage (~4 characters per token)
+   */
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Price a call and append it to the ledger
+   * @returns The recorded entry
+   */
+  record(
+    provider: string,
+    model: string,
+    purpose: SpendPurpose,
+    usage: TokenUsage,
+    pricing: TokenPricing | undefined,
+    estimated: boolean = false
+  ): SpendEntry {
+    if (!pricing) {
+      console.warn(`[CostTracking] No pricing known for ${provider}:${model}, recording zero cost`);
+    }
+
+    const entry: SpendEntry = {
+      timestamp: Date.now(),
+      provider,
+      model,
+      purpose,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cost: pricing ? this.calculateCost(pricing, usage) : 0,
+      estimated,
+    };
+
+    this.entries.push(entry);
+    this.addToPeriodTotals(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Get ledger entries matching a filter, oldest first
+   */
+  getEntries(filter: SpendFilter = {}): SpendEntry[] {
+    const since = filter.since !== undefined ? new Date(filter.since).getTime() : -Infinity;
+    const until = filter.until !== undefined ? new Date(filter.until).getTime() : Infinity;
+
+    return this.entries.filter(entry =>
+      entry.timestamp >= since &&
+      entry.timestamp <= until &&
+      (filter.provider === undefined || entry.provider === filter.provider) &&
+      (filter.model === undefined || entry.model === filter.model) &&
+      (filter.purpose === undefined || entry.purpose === filter.purpose)
+    );
+  }
+
+  /**
+   * Summarize spend, broken down by provider, model and purpose
+   */
+  getSummary(filter: SpendFilter = {}): SpendSummary {
+    const summary: SpendSummary = {
+      totalCost: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      requests: 0,
+      byProvider: {},
+      byModel: {},
+      byPurpose: {},
+    };
+
+    for (const entry of this.getEntries(filter)) {
+      const modelKey = `${entry.provider}:${entry.model}`;
+      summary.totalCost += entry.cost;
+      summary.inputTokens += entry.inputTokens;
+      summary.outputTokens += entry.outputTokens;
+      summary.requests++;
+      summary.byProvider[entry.provider] = (summary.byProvider[entry.provider] ?? 0) + entry.cost;
+      summary.byModel[modelKey] = (summary.byModel[modelKey] ?? 0) + entry.cost;
+      summary.byPurpose[entry.purpose] = (summary.byPurpose[entry.purpose] ?? 0) + entry.cost;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Get spend so far in the current UTC day or month. Read from running totals,
+   * so it stays exact when old entries have been dropped from the ledger.
+   * @param provider - Provider key; omit for spend across all providers
+   */
+  getPeriodSpend(interval: 'day' | 'month', provider?: string): number {
+    const total = this.periodTotals.get(`${interval}|${provider ?? '*'}`);
+    return total && total.start === this.getWindowStart(Date.now(), interval) ? total.cost : 0;
+  }
+
+  /**
+   * Bucket spend into hourly, daily or monthly windows (UTC), oldest first
+   */
+  getSpendByInterval(interval: SpendInterval, filter: SpendFilter = {}): SpendWindow[] {
+    const windows = new Map<number, SpendWindow>();
+
+    for (const entry of this.getEntries(filter)) {
+      const start = this.getWindowStart(entry.timestamp, interval);
+      const window = windows.get(start) ?? { start: new Date(start), totalCost: 0, requests: 0 };
+      window.totalCost += entry.cost;
+      window.requests++;
+      windows.set(start, window);
+    }
+
+    return [...windows.values()].sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Clear all ledger entries
+   */
+  reset(): void {
+    this.entries = [];
+    this.periodTotals.clear();
+    console.log('[CostTracking] Spend ledger cleared');
+  }
+
+  /**
+   * Get the start of the UTC window containing a timestamp
+   */
+  getWindowStart(timestamp: number, interval: SpendInterval): number {
+    const date = new Date(timestamp);
+    switch (interval) {
+      case 'hour':
+        return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours());
+      case 'day':
+        return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+      case 'month':
+        return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+    }
+  }
+
+  private addToPeriodTotals(entry: SpendEntry): void {
+    for (const interval of ['day', 'month'] as const) {
+      const start = this.getWindowStart(entry.timestamp, interval);
+      for (const key of [`${interval}|*`, `${interval}|${entry.provider}`]) {
+        const total = this.periodTotals.get(key);
+        // A total from an earlier window starts over
+        this.periodTotals.set(key, { start, cost: (total?.start === start ? total.cost : 0) + entry.cost });
+      }
+    }
+  }
+
+  private normalizeModelName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+}
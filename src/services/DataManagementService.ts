@@ -1,28 +1,36 @@
 import type { LLMModelData, MediaModelData } from '../client.js';
+import type { ProviderResolutionService } from './ProviderResolutionService.js';
 
 export class DataManagementService {
   private readonly AI_ANALYSIS_API: string;
   private readonly fetchFn: typeof fetch;
   private llmProviders: Map<string, any>; // Will be passed from RouterClient
   private mediaProviders: Map<string, any>; // Will be passed from RouterClient
+  private resolutionService: ProviderResolutionService;
+  private getFetchTimeoutMs: () => number; // Current per-call time limit; 0 for none
 
   constructor(
     aiAnalysisApi: string,
     fetchFn: typeof fetch,
     llmProviders: Map<string, any>,
-    mediaProviders: Map<string, any>
+    mediaProviders: Map<string, any>,
+    resolutionService: ProviderResolutionService,
+    getFetchTimeoutMs: () => number = () => 0
   ) {
     this.AI_ANALYSIS_API = aiAnalysisApi;
     this.fetchFn = fetchFn;
     this.llmProviders = llmProviders;
     this.mediaProviders = mediaProviders;
+    this.resolutionService = resolutionService;
+    this.getFetchTimeoutMs = getFetchTimeoutMs;
   }
 
   /**
    * Populate LLM data from API
+   * @param signal - Cancels the API call
    */
-  async populateLLMData(): Promise<void> {
-    const data = await this.makeAPICall("llms/models");
+  async populateLLMData(signal?: AbortSignal): Promise<void> {
+    const data = await this.makeAPICall("llms/models", signal);
     this.extractLLMData(data);
     
     // Remove only unused models that are no longer available from the API
@@ -31,14 +39,15 @@ export class DataManagementService {
 
   /**
    * Populate Media data from API
+   * @param signal - Cancels the API calls
    */
-  async populateMediaData(): Promise<void> {
+  async populateMediaData(signal?: AbortSignal): Promise<void> {
     const [ttiData, imageEditingData, ttsData, ttvData, imageToVideoData] = await Promise.all([
-      this.makeAPICall("media/text-to-image"),
-      this.makeAPICall("media/image-editing"),
-      this.makeAPICall("media/text-to-speech"),
-      this.makeAPICall("media/text-to-video"),
-      this.makeAPICall("media/image-to-video")
+      this.makeAPICall("media/text-to-image", signal),
+      this.makeAPICall("media/image-editing", signal),
+      this.makeAPICall("media/text-to-speech", signal),
+      this.makeAPICall("media/text-to-video", signal),
+      this.makeAPICall("media/image-to-video", signal)
     ]);
 
     this.extractMediaData(ttiData, "Text-To-Image");
@@ -56,42 +65,52 @@ export class DataManagementService {
    */
   private extractLLMData(data: any[]): void {
     for (const item of data) {
-      const providerName = item.model_creator.name;
+      const creatorName = item.model_creator.name;
       const modelName = item.name;
-      const modelData = this.ensureLLMModel(providerName, modelName);
 
-      // Update model data (preserving last_used if it exists)
-      modelData.price_per_1M_input_tokens = item.price_per_1M_input_tokens;
-      modelData.price_per_1M_output_tokens = item.price_per_1M_output_tokens;
-      modelData.median_output_tokens_per_second = item.median_output_tokens_per_second;
-      modelData.median_time_to_first_token = item.median_time_to_first_token;
-      // Set price and latency for base ModelData
-      modelData.price = item.price_per_1M_input_tokens;
-      modelData.latency = item.median_time_to_first_token;
+      // Register the model under every provider that can serve it
+      for (const providerName of this.getProviderKeys(creatorName)) {
+        const modelData = this.ensureLLMModel(providerName, modelName, creatorName);
+        this.updateLLMModel(modelData, item);
+      }
+    }
+  }
 
-      // Populate evaluations
-      if (item.evaluations && Array.isArray(item.evaluations)) {
-        for (const evaluation of item.evaluations) {
-          // Extract all evaluation metrics
-          const metrics = [
-            'artificial_analysis_intelligence_index',
-            'artificial_analysis_coding_index',
-            'artificial_analysis_math_index',
-            'mmlu_pro_index',
-            'physics_knowledge_index',
-            'human_level_evaluation_index',
-            'live_code_benchmark_index',
-            'science_code_benchmark_index',
-            'math_benchmark_index',
-            'aime_index',
-            'aime_25_index',
-            'image_benchmark_index'
-          ];
+  /**
+   * Copy benchmark fields from an API item onto a stored LLM model
+   */
+  private updateLLMModel(modelData: LLMModelData, item: any): void {
+    // Update model data (preserving last_used if it exists)
+    modelData.price_per_1M_input_tokens = item.price_per_1M_input_tokens;
+    modelData.price_per_1M_output_tokens = item.price_per_1M_output_tokens;
+    modelData.median_output_tokens_per_second = item.median_output_tokens_per_second;
+    modelData.median_time_to_first_token = item.median_time_to_first_token;
+    // Set price and latency for base ModelData
+    modelData.price = item.price_per_1M_input_tokens;
+    modelData.latency = item.median_time_to_first_token;
+
+    // Populate evaluations
+    if (item.evaluations && Array.isArray(item.evaluations)) {
+      for (const evaluation of item.evaluations) {
+        // Extract all evaluation metrics
+        const metrics = [
+          'artificial_analysis_intelligence_index',
+          'artificial_analysis_coding_index',
+          'artificial_analysis_math_index',
+          'mmlu_pro_index',
+          'physics_knowledge_index',
+          'human_level_evaluation_index',
+          'live_code_benchmark_index',
+          'science_code_benchmark_index',
+          'math_benchmark_index',
+          'aime_index',
+          'aime_25_index',
+          'image_benchmark_index'
+        ];
 
-          for (const metric of metrics) {
-            if (evaluation[metric] !== null && evaluation[metric] !== undefined) {
-              modelData.evaluations.set(metric, evaluation[metric]);
-            }
+        for (const metric of metrics) {
+          if (evaluation[metric] !== null && evaluation[metric] !== undefined) {
+            modelData.evaluations.set(metric, evaluation[metric]);
           }
         }
       }
@@ -103,45 +122,72 @@ export class DataManagementService {
    */
   private extractMediaData(data: any[], model_type: string): void {
     for (const item of data) {
-      const providerName = item.model_creator.name;
+      const creatorName = item.model_creator.name;
       const modelName = item.name;
-      const modelData = this.ensureMediaModel(providerName, modelName);
-
-      // Update model data (preserving last_used if it exists)
-      modelData.model_type = model_type;
-      modelData.elo = item.elo || 0;
-      modelData.rank = item.rank || 0;
-      modelData.ci95 = item.ci95 || '';
-      
-      // Set price and latency for base ModelData (using default values for media)
-      modelData.price = 0; // Media models don't have token-based pricing
-      modelData.latency = 0; // Media models don't have token-based latency
 
-      // Populate evaluations
-      if (item.elo !== null && item.elo !== undefined) {
-        modelData.evaluations.set('elo', item.elo);
-      }
-      if (item.rank !== null && item.rank !== undefined) {
-        modelData.evaluations.set('rank', item.rank);
+      for (const providerName of this.getProviderKeys(creatorName)) {
+        const modelData = this.ensureMediaModel(providerName, modelName, creatorName);
+        this.updateMediaModel(modelData, item, model_type);
       }
+    }
+  }
 
-      // Handle categories if they exist
-      if (item.categories && Array.isArray(item.categories)) {
-        modelData.categories = item.categories.map((category: any) => ({
-          style_category: category.style_category,
-          subject_matter_category: category.subject_matter_category,
-          elo: category.elo,
-          ci95: category.ci95,
-        }));
-      }
+  /**
+   * Copy benchmark fields from an API item onto a stored media model
+   */
+  private updateMediaModel(modelData: MediaModelData, item: any, model_type: string): void {
+    // Update model data (preserving last_used if it exists)
+    modelData.model_type = model_type;
+    modelData.elo = item.elo || 0;
+    modelData.rank = item.rank || 0;
+    modelData.ci95 = item.ci95 || '';
+    
+    // Set price and latency for base ModelData (using default values for media)
+    modelData.price = 0; // Media models don't have token-based pricing
+    modelData.latency = 0; // Media models don't have token-based latency
+
+    // Populate evaluations
+    if (item.elo !== null && item.elo !== undefined) {
+      modelData.evaluations.set('elo', item.elo);
     }
+    if (item.rank !== null && item.rank !== undefined) {
+      modelData.evaluations.set('rank', item.rank);
+    }
+
+    // Handle categories if they exist
+    if (item.categories && Array.isArray(item.categories)) {
+      modelData.categories = item.categories.map((category: any) => ({
+        style_category: category.style_category,
+        subject_matter_category: category.subject_matter_category,
+        elo: category.elo,
+        ci95: category.ci95,
+      }));
+    }
+  }
+
+  /**
+   * Get the provider keys a creator's models are stored under.
+   * Creators no provider can serve keep their own name so their data stays visible.
+   */
+  private getProviderKeys(creatorName: string): string[] {
+    const providerKeys = this.resolutionService.resolveCreator(creatorName);
+    return providerKeys.length > 0 ? providerKeys : [creatorName];
+  }
+
+  /**
+   * Build the provider:model keys present in API data, using resolved provider keys
+   */
+  private getAPIModelKeys(apiData: any[]): string[] {
+    return apiData.flatMap(item =>
+      this.getProviderKeys(item.model_creator.name).map(providerName => `${providerName}:${item.name}`)
+    );
   }
 
   /**
    * Remove unused stale LLM models
    */
   private removeUnusedStaleLLMModels(apiData: any[]): void {
-    const apiModelKeys = new Set(apiData.map(item => `${item.model_creator.name}:${item.name}`));
+    const apiModelKeys = new Set(this.getAPIModelKeys(apiData));
     
     for (const [providerName, provider] of this.llmProviders) {
       for (const [modelName, modelData] of provider.models) {
@@ -169,8 +215,8 @@ export class DataManagementService {
     
     // Collect all model keys from all media API endpoints
     for (const apiData of apiDataArrays) {
-      for (const item of apiData) {
-        apiModelKeys.add(`${item.model_creator.name}:${item.name}`);
+      for (const modelKey of this.getAPIModelKeys(apiData)) {
+        apiModelKeys.add(modelKey);
       }
     }
     
@@ -193,13 +239,17 @@ export class DataManagementService {
   }
 
   /**
-   * Make API call to Artificial Analysis API
+   * Make API call to Artificial Analysis API, bounded by the configured fetch timeout
    */
-  private async makeAPICall(endpoint: string): Promise<any[]> {
+  private async makeAPICall(endpoint: string, signal?: AbortSignal): Promise<any[]> {
+    const timeoutMs = this.getFetchTimeoutMs();
+    const signals = [signal, timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined].filter((s): s is AbortSignal => s !== undefined);
+    const requestSignal = signals.length > 1 ? AbortSignal.any(signals) : signals[0];
     try {
       const res = await this.fetchFn(`https://artificialanalysis.ai/api/v2/data/${endpoint}`, {
         method: "GET",
         headers: { "x-api-key": this.AI_ANALYSIS_API },
+        ...(requestSignal ? { signal: requestSignal } : {}),
       });
       if (!res.ok) throw new Error(`Request failed: ${res.status}`);
       const data = await res.json();
@@ -243,12 +293,13 @@ export class DataManagementService {
   /**
    * Ensure LLM model exists
    */
-  private ensureLLMModel(providerName: string, modelName: string): LLMModelData {
+  private ensureLLMModel(providerName: string, modelName: string, creatorName: string): LLMModelData {
     const provider = this.ensureLLMProvider(providerName);
     if (!provider.models.has(modelName)) {
       provider.models.set(modelName, {
         name: modelName,
         provider_name: providerName,
+        creator_name: creatorName,
         evaluations: new Map(),
         price: 0,
         latency: 0,
@@ -268,12 +319,13 @@ export class DataManagementService {
   /**
    * Ensure Media model exists
    */
-  private ensureMediaModel(providerName: string, modelName: string): MediaModelData {
+  private ensureMediaModel(providerName: string, modelName: string, creatorName: string): MediaModelData {
     const provider = this.ensureMediaProvider(providerName);
     if (!provider.models.has(modelName)) {
       provider.models.set(modelName, {
         name: modelName,
         provider_name: providerName,
+        creator_name: creatorName,
         evaluations: new Map(),
         price: 0,
         latency: 0,
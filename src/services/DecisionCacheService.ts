@@ -0,0 +1,183 @@
+import { createHash } from 'node:crypto';
+
+// A cached value and when it stops being valid
+export interface CacheEntry<T = unknown> {
+  value: T;
+  expiresAt: number; // Epoch ms
+}
+
+/**
+ * Storage backend for cached routing decisions.
+ * Implement this to share the cache across processes (e.g. Redis).
+ */
+export interface CacheStorageAdapter {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export type CacheKind = 'analysis' | 'ranking';
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  byKind: Record<CacheKind, { hits: number; misses: number }>;
+  catalogVersion: string;
+}
+
+export interface DecisionCacheOptions {
+  enabled?: boolean; // Default true
+  ttlMs?: number; // Default 10 minutes
+  storage?: CacheStorageAdapter; // Default in-memory
+}
+
+/**
+ * In-process storage that evicts the oldest entries beyond a size limit
+ */
+export class MemoryCacheStorage implements CacheStorageAdapter {
+  private entries: Map<string, CacheEntry> = new Map();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key); // Re-insert so the key becomes the newest
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * TTL cache for request analyses and model rankings. Keys combine a normalized
+ * request fingerprint with the catalog version, so a changed model set never
+ * serves stale decisions.
+ */
+export class DecisionCacheService {
+  private storage: CacheStorageAdapter;
+  private ttlMs: number;
+  private enabled: boolean;
+  private catalogVersion: string = 'empty';
+  private stats: Record<CacheKind, { hits: number; misses: number }> = {
+    analysis: { hits: 0, misses: 0 },
+    ranking: { hits: 0, misses: 0 },
+  };
+
+  constructor(options: DecisionCacheOptions = {}) {
+    this.storage = options.storage ?? new MemoryCacheStorage();
+    this.ttlMs = options.ttlMs ?? 10 * 60 * 1000;
+    this.enabled = options.enabled ?? true;
+  }
+
+  /**
+   * Look up a cached decision
+   * @param parts - Request fingerprint inputs (normalized before hashing)
+   * @returns The cached value, or undefined on a miss or expired entry
+   */
+  async get<T>(kind: CacheKind, parts: string[]): Promise<T | undefined> {
+    if (!this.enabled) return undefined;
+
+    const key = this.buildKey(kind, parts);
+    try {
+      const entry = await this.storage.get(key);
+      if (entry && entry.expiresAt > Date.now()) {
+        this.stats[kind].hits++;
+        return entry.value as T;
+      }
+      if (entry) {
+        await this.storage.delete(key);
+      }
+    } catch (error) {
+      console.warn(`[DecisionCache] Storage read failed for ${kind}:`, error);
+    }
+
+    this.stats[kind].misses++;
+    return undefined;
+  }
+
+  /**
+   * Store a decision for the configured TTL
+   */
+  async set<T>(kind: CacheKind, parts: string[], value: T): Promise<void> {
+    if (!this.enabled) return;
+
+    try {
+      await this.storage.set(this.buildKey(kind, parts), { value, expiresAt: Date.now() + this.ttlMs });
+    } catch (error) {
+      console.warn(`[DecisionCache] Storage write failed for ${kind}:`, error);
+    }
+  }
+
+  /**
+   * Update the catalog version from the current model set, dropping cached
+   * decisions when it changed
+   * @param modelKeys - provider:model keys of every known model
+   */
+  async updateCatalog(modelKeys: string[]): Promise<void> {
+    const version = this.hash([...modelKeys].sort().join('\n')).slice(0, 16);
+    if (version === this.catalogVersion) return;
+
+    this.catalogVersion = version;
+    await this.clear();
+    console.log(`[DecisionCache] Model catalog changed (version ${version}), cache invalidated`);
+  }
+
+  /**
+   * Drop every cached decision
+   */
+  async clear(): Promise<void> {
+    try {
+      await this.storage.clear();
+    } catch (error) {
+      console.warn('[DecisionCache] Storage clear failed:', error);
+    }
+  }
+
+  getStats(): CacheStats {
+    const hits = this.stats.analysis.hits + this.stats.ranking.hits;
+    const misses = this.stats.analysis.misses + this.stats.ranking.misses;
+    return {
+      hits,
+      misses,
+      byKind: {
+        analysis: { ...this.stats.analysis },
+        ranking: { ...this.stats.ranking },
+      },
+      catalogVersion: this.catalogVersion,
+    };
+  }
+
+  /**
+   * Normalize text so near-identical requests share a fingerprint:
+   * case, surrounding whitespace, repeated whitespace and trailing punctuation are ignored
+   */
+  normalize(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, ' ').trim().replace(/[.!?]+$/, '');
+  }
+
+  private buildKey(kind: CacheKind, parts: string[]): string {
+    return `${kind}:${this.catalogVersion}:${this.hash(parts.map(part => this.normalize(part)).join('\u0000'))}`;
+  }
+
+  private hash(text: string): string {
+    return createHash('sha256').update(text).digest('hex');
+  }
+}
@@ -0,0 +1,124 @@
+import type { JSONSchema } from './StructuredOutputService.js';
+
+// Outcome of a majority vote over normalized answers
+export interface VoteTally {
+  winner: number; // Index of the first answer in the winning group
+  votes: Record<string, number>; // Normalized answer -> number of models that gave it
+  agreement: number; // Share of answers in the winning group (0-1)
+}
+
+// Decision returned by the judge model
+export interface JudgeVerdict {
+  best: number; // 0-based index of the best answer
+  answer?: string; // Merged answer, when merging was requested
+  reasoning: string;
+}
+
+// Schema for the judge model's verdict; `best` is 1-based as shown in the prompt
+export const JUDGE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    best: { type: 'integer', minimum: 1 },
+    answer: { type: 'string' },
+    reasoning: { type: 'string' },
+  },
+  required: ['best', 'reasoning'],
+};
+
+/**
+ * Combines answers from several models: majority votes, agreement scores,
+ * and the prompt and verdict handling for a judge model.
+ */
+export class EnsembleService {
+  /**
+   * Normalize an answer for voting, so "Positive." and "positive" count as the same vote
+   */
+  normalizeAnswer(answer: string): string {
+    return answer
+      .trim()
+      .toLowerCase()
+      .replace(/^["'`]+|["'`]+$/g, '')
+      .replace(/[.!?;:,]+$/, '')
+      .replace(/\s+/g, ' ');
+  }
+
+  /**
+   * Majority vote over answers. Ties go to the group whose first answer comes
+   * from the higher-ranked model (earlier in the list).
+   */
+  tallyVotes(answers: string[]): VoteTally {
+    const votes: Record<string, number> = {};
+    const firstIndex = new Map<string, number>();
+    answers.forEach((answer, index) => {
+      const key = this.normalizeAnswer(answer);
+      votes[key] = (votes[key] ?? 0) + 1;
+      if (!firstIndex.has(key)) firstIndex.set(key, index);
+    });
+
+    let winnerKey: string | undefined;
+    for (const [key, count] of Object.entries(votes)) {
+      if (winnerKey === undefined || count > votes[winnerKey]! || (count === votes[winnerKey]! && firstIndex.get(key)! < firstIndex.get(winnerKey)!)) {
+        winnerKey = key;
+      }
+    }
+
+    return {
+      winner: winnerKey === undefined ? -1 : firstIndex.get(winnerKey)!,
+      votes,
+      agreement: winnerKey === undefined ? 0 : votes[winnerKey]! / answers.length,
+    };
+  }
+
+  /**
+   * Mean pairwise word-overlap (Jaccard) between free-form answers (0-1).
+   * A single answer agrees with itself.
+   */
+  measureAgreement(answers: string[]): number {
+    if (answers.length < 2) return answers.length;
+    const wordSets = answers.map(answer => new Set(this.normalizeAnswer(answer).split(/\W+/).filter(Boolean)));
+    let total = 0;
+    let pairs = 0;
+    for (let i = 0; i < wordSets.length; i++) {
+      for (let j = i + 1; j < wordSets.length; j++) {
+        const a = wordSets[i]!;
+        const b = wordSets[j]!;
+        const shared = [...a].filter(word => b.has(word)).length;
+        const union = a.size + b.size - shared;
+        total += union === 0 ? 1 : shared / union;
+        pairs++;
+      }
+    }
+    return total / pairs;
+  }
+
+  /**
+   * Build the prompt asking a judge model to pick (or merge) the best answer
+   */
+  buildJudgePrompt(question: string, answers: string[], merge: boolean): string {
+    const numbered = answers.map((answer, index) => `Answer ${index + 1}:\n${answer}`).join('\n\n---\n\n');
+    return `You are judging answers from different AI models to the same request.
+
+Request:
+${question}
+
+${numbered}
+
+Decide which answer is the most correct, complete and helpful. Set "best" to its number (1-${answers.length}) and explain briefly in "reasoning".${merge ? ' Then write the best possible answer in "answer", combining the correct parts of all answers and fixing their mistakes.' : ''}`;
+  }
+
+  /**
+   * Validate a judge's structured output against the number of answers shown
+   * @throws Error when the judge picked an answer that does not exist
+   */
+  parseVerdict(value: unknown, answerCount: number): JudgeVerdict {
+    const verdict = value as { best: number; answer?: string; reasoning: string };
+    if (verdict.best < 1 || verdict.best > answerCount) {
+      throw new Error(`Judge picked answer ${verdict.best}, but only ${answerCount} were given`);
+    }
+    return {
+      best: verdict.best - 1,
+      ...(verdict.answer ? { answer: verdict.answer } : {}),
+      reasoning: verdict.reasoning,
+    };
+  }
+}
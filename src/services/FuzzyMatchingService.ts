@@ -53,6 +53,26 @@ export class FuzzyMatchingService {
     return bestMatch;
   }
 
+  /**
+   * Find the closest candidate to an input name, ignoring case and punctuation
+   * @param maxDistance - Maximum allowed character differences
+   */
+  findClosestMatch(input: string, candidates: string[], maxDistance: number = 2): string | null {
+    const normalizedInput = this.normalizeProviderName(input);
+    let bestMatch: string | null = null;
+    let bestScore = Infinity;
+
+    for (const candidate of candidates) {
+      const distance = this.levenshteinDistance(normalizedInput, this.normalizeProviderName(candidate));
+      if (distance < bestScore && distance <= maxDistance) {
+        bestScore = distance;
+        bestMatch = candidate;
+      }
+    }
+
+    return bestMatch;
+  }
+
   /**
    * Calculate Levenshtein distance between two strings
    */
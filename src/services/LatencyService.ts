@@ -0,0 +1,138 @@
+import type { LLMModelData, MediaModelData } from '../client.js';
+
+// Observed-versus-published latency for one model or provider
+export interface LatencyCorrection {
+  ratio: number; // Smoothed observed / predicted latency (1 = medians are accurate)
+  samples: number;
+  lastObservedAt: number;
+}
+
+// Bounds on a single observation's ratio so one outlier cannot swamp the average
+const MIN_OBSERVED_RATIO = 0.2;
+const MAX_OBSERVED_RATIO = 10;
+
+/**
+ * Raised when no candidate model is predicted to finish before the request's deadline.
+ */
+export class DeadlineUnreachableError extends Error {
+  constructor(
+    message: string,
+    public budgetMs: number,
+    public fastestPredictedMs?: number
+  ) {
+    super(message);
+    this.name = 'DeadlineUnreachableError';
+  }
+}
+
+export class LatencyService {
+  private modelCorrections: Map<string, LatencyCorrection> = new Map();
+  private providerCorrections: Map<string, LatencyCorrection> = new Map();
+  private smoothing: number;
+
+  /**
+   * @param smoothing - Weight of each new observation in the moving average (0-1)
+   */
+  constructor(smoothing: number = 0.3) {
+    this.smoothing = smoothing;
+  }
+
+  /**
+   * Predict completion time from the published medians alone
+   * @returns Milliseconds, or undefined when the benchmark has no latency data
+   */
+  predictPublishedMs(model: LLMModelData | MediaModelData, outputTokens: number): number | undefined {
+    if (!('median_time_to_first_token' in model)) return undefined;
+    const ttft = model.median_time_to_first_token;
+    const tokensPerSecond = model.median_output_tokens_per_second;
+    if (!(ttft > 0) && !(tokensPerSecond > 0)) return undefined;
+
+    const generationSeconds = outputTokens > 0 && tokensPerSecond > 0 ? outputTokens / tokensPerSecond : 0;
+    return (Math.max(ttft, 0) + generationSeconds) * 1000;
+  }
+
+  /**
+   * Predict completion time, corrected by latencies observed for this model
+   * (or its provider, until the model itself has been observed)
+   * @returns Milliseconds, or undefined when no prediction is possible
+   */
+  predictMs(model: LLMModelData | MediaModelData, outputTokens: number): number | undefined {
+    const published = this.predictPublishedMs(model, outputTokens);
+    if (published === undefined) return undefined;
+    return published * this.getCorrection(model);
+  }
+
+  /**
+   * Get the correction factor applied to a model's published medians
+   */
+  getCorrection(model: LLMModelData | MediaModelData): number {
+    return this.modelCorrections.get(this.getModelKey(model))?.ratio
+      ?? this.providerCorrections.get(model.provider_name)?.ratio
+      ?? 1;
+  }
+
+  /**
+   * Record how long a call actually took
+   * @param observedMs - Wall-clock time of the call (time to first chunk when streaming)
+   * @param outputTokens - Tokens generated in that time (0 for time to first chunk)
+   */
+  recordObservation(model: LLMModelData | MediaModelData, observedMs: number, outputTokens: number): void {
+    const predicted = this.predictPublishedMs(model, outputTokens);
+    if (predicted === undefined || predicted <= 0 || observedMs <= 0) return;
+
+    const ratio = Math.min(Math.max(observedMs / predicted, MIN_OBSERVED_RATIO), MAX_OBSERVED_RATIO);
+    this.updateCorrection(this.modelCorrections, this.getModelKey(model), ratio);
+    this.updateCorrection(this.providerCorrections, model.provider_name, ratio);
+  }
+
+  /**
+   * Split models into those predicted to finish within the time budget and those that are not.
+   * Models without latency data are kept, since they cannot be ruled out.
+   */
+  partition<T extends LLMModelData | MediaModelData>(models: T[], budgetMs: number, outputTokens: number): { meeting: T[]; missing: Array<{ model: T; predictedMs: number }> } {
+    const meeting: T[] = [];
+    const missing: Array<{ model: T; predictedMs: number }> = [];
+
+    for (const model of models) {
+      const predictedMs = this.predictMs(model, outputTokens);
+      if (predictedMs !== undefined && predictedMs > budgetMs) {
+        missing.push({ model, predictedMs });
+      } else {
+        meeting.push(model);
+      }
+    }
+
+    return { meeting, missing };
+  }
+
+  /**
+   * Get latency corrections learned so far, keyed by provider and by provider:model
+   */
+  getCorrections(): { providers: Record<string, LatencyCorrection>; models: Record<string, LatencyCorrection> } {
+    return {
+      providers: Object.fromEntries(this.providerCorrections),
+      models: Object.fromEntries(this.modelCorrections),
+    };
+  }
+
+  /**
+   * Forget all observed latencies
+   */
+  reset(): void {
+    this.modelCorrections.clear();
+    this.providerCorrections.clear();
+  }
+
+  private updateCorrection(corrections: Map<string, LatencyCorrection>, key: string, ratio: number): void {
+    const current = corrections.get(key);
+    corrections.set(key, {
+      ratio: current ? current.ratio + this.smoothing * (ratio - current.ratio) : ratio,
+      samples: (current?.samples ?? 0) + 1,
+      lastObservedAt: Date.now(),
+    });
+  }
+
+  private getModelKey(model: LLMModelData | MediaModelData): string {
+    return `${model.provider_name}:${model.name}`;
+  }
+}
@@ -0,0 +1,145 @@
+import type { LLMModelData } from '../client.js';
+
+// Provider key -> benchmark model name -> API model ID
+export type ModelCatalog = Record<string, Record<string, string>>;
+
+// Built-in mapping from Artificial Analysis model names to the IDs each host's API accepts
+const BUILT_IN_MODEL_CATALOG: ModelCatalog = {
+  'openai': {
+    'GPT-5': 'gpt-5',
+    'GPT-5 mini': 'gpt-5-mini',
+    'GPT-5 nano': 'gpt-5-nano',
+    'GPT-4.1': 'gpt-4.1',
+    'GPT-4.1 mini': 'gpt-4.1-mini',
+    'GPT-4.1 nano': 'gpt-4.1-nano',
+    'GPT-4o': 'gpt-4o',
+    "GPT-4o (Nov '24)": 'gpt-4o-2024-11-20',
+    "GPT-4o (Aug '24)": 'gpt-4o-2024-08-06',
+    "GPT-4o (May '24)": 'gpt-4o-2024-05-13',
+    'GPT-4o mini': 'gpt-4o-mini',
+    'GPT-4 Turbo': 'gpt-4-turbo',
+    'GPT-3.5 Turbo': 'gpt-3.5-turbo',
+    'o1': 'o1',
+    'o1-mini': 'o1-mini',
+    'o3': 'o3',
+    'o3-mini': 'o3-mini',
+    'o3-mini (high)': 'o3-mini',
+    'o4-mini (high)': 'o4-mini',
+  },
+  'anthropic': {
+    'Claude 4.1 Opus': 'claude-opus-4-1-20250805',
+    'Claude 4 Opus': 'claude-opus-4-20250514',
+    'Claude 4 Sonnet': 'claude-sonnet-4-20250514',
+    'Claude 3.7 Sonnet': 'claude-3-7-sonnet-20250219',
+    "Claude 3.5 Sonnet (Oct '24)": 'claude-3-5-sonnet-20241022',
+    "Claude 3.5 Sonnet (June '24)": 'claude-3-5-sonnet-20240620',
+    'Claude 3.5 Haiku': 'claude-3-5-haiku-20241022',
+    'Claude 3 Opus': 'claude-3-opus-20240229',
+    'Claude 3 Haiku': 'claude-3-haiku-20240307',
+  },
+  'xai': {
+    'Grok 4': 'grok-4',
+    'Grok 3': 'grok-3',
+    'Grok 3 mini Reasoning (high)': 'grok-3-mini',
+    'Grok 2': 'grok-2-1212',
+    'Grok Beta': 'grok-beta',
+  },
+  'deepseek': {
+    "DeepSeek V3 (Dec '24)": 'deepseek-chat',
+    'DeepSeek V3 0324': 'deepseek-chat',
+    'DeepSeek R1': 'deepseek-reasoner',
+    'DeepSeek R1 0528': 'deepseek-reasoner',
+  },
+  'meta-llama': {
+    'Llama 4 Maverick': 'meta-llama/Llama-4-Maverick-17B-128E-Instruct-FP8',
+    'Llama 4 Scout': 'meta-llama/Llama-4-Scout-17B-16E-Instruct',
+    'Llama 3.3 Instruct 70B': 'meta-llama/Llama-3.3-70B-Instruct-Turbo',
+    'Llama 3.1 Instruct 405B': 'meta-llama/Meta-Llama-3.1-405B-Instruct-Turbo',
+    'Llama 3.1 Instruct 70B': 'meta-llama/Meta-Llama-3.1-70B-Instruct-Turbo',
+    'Llama 3.1 Instruct 8B': 'meta-llama/Meta-Llama-3.1-8B-Instruct-Turbo',
+  },
+  'meta-llama-groq': {
+    'Llama 4 Maverick': 'meta-llama/llama-4-maverick-17b-128e-instruct',
+    'Llama 4 Scout': 'meta-llama/llama-4-scout-17b-16e-instruct',
+    'Llama 3.3 Instruct 70B': 'llama-3.3-70b-versatile',
+    'Llama 3.1 Instruct 8B': 'llama-3.1-8b-instant',
+  },
+  'cohere': {
+    'Command A': 'command-a-03-2025',
+    "Command-R+ (Aug '24)": 'command-r-plus-08-2024',
+    "Command-R (Aug '24)": 'command-r-08-2024',
+    'Command-R+': 'command-r-plus',
+    'Command-R': 'command-r',
+  },
+};
+
+export class ModelCatalogService {
+  private builtIn: Map<string, Map<string, string>>;
+  private overrides: Map<string, Map<string, string>> = new Map();
+
+  /**
+   * @param overrides - User mappings, checked before the built-in table
+   */
+  constructor(overrides: ModelCatalog = {}) {
+    this.builtIn = this.toLookup(BUILT_IN_MODEL_CATALOG);
+    for (const [providerName, models] of Object.entries(overrides)) {
+      for (const [modelName, apiModelId] of Object.entries(models)) {
+        this.setOverride(providerName, modelName, apiModelId);
+      }
+    }
+  }
+
+  /**
+   * Get the API model ID a provider expects for a benchmark model name
+   * @returns The API model ID, or undefined when no mapping is known
+   */
+  getApiModelId(providerName: string, modelName: string): string | undefined {
+    const key = this.normalizeModelName(modelName);
+    return this.overrides.get(providerName)?.get(key) ?? this.builtIn.get(providerName)?.get(key);
+  }
+
+  /**
+   * Check if a model can be called on its provider
+   */
+  hasMapping(model: LLMModelData): boolean {
+    return this.getApiModelId(model.provider_name, model.name) !== undefined;
+  }
+
+  /**
+   * Add or replace a user mapping
+   */
+  setOverride(providerName: string, modelName: string, apiModelId: string): void {
+    if (!this.overrides.has(providerName)) {
+      this.overrides.set(providerName, new Map());
+    }
+    this.overrides.get(providerName)!.set(this.normalizeModelName(modelName), apiModelId);
+    console.log(`[ModelCatalog] Mapped ${providerName}:${modelName} -> ${apiModelId}`);
+  }
+
+  /**
+   * Remove a user mapping, falling back to the built-in table
+   */
+  removeOverride(providerName: string, modelName: string): boolean {
+    return this.overrides.get(providerName)?.delete(this.normalizeModelName(modelName)) ?? false;
+  }
+
+  /**
+   * Build a lookup table keyed by provider and normalized model name
+   */
+  private toLookup(catalog: ModelCatalog): Map<string, Map<string, string>> {
+    const lookup = new Map<string, Map<string, string>>();
+    for (const [providerName, models] of Object.entries(catalog)) {
+      lookup.set(providerName, new Map(
+        Object.entries(models).map(([modelName, apiModelId]) => [this.normalizeModelName(modelName), apiModelId])
+      ));
+    }
+    return lookup;
+  }
+
+  /**
+   * Normalize benchmark names so spacing, case and punctuation differences still match
+   */
+  private normalizeModelName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9.]/g, '');
+  }
+}
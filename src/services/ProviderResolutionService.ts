@@ -0,0 +1,100 @@
+import { PROVIDER_CONFIGS } from '../providers/base.js';
+import type { FuzzyMatchingService } from './FuzzyMatchingService.js';
+
+// Built-in map of normalized benchmark creator names to the provider keys that can serve their models
+const CREATOR_PROVIDER_ALIASES: Record<string, string[]> = {
+  'openai': ['openai'],
+  'anthropic': ['anthropic'],
+  'xai': ['xai'],
+  'deepseek': ['deepseek'],
+  'meta': ['meta-llama', 'meta-llama-groq'],
+  'metaai': ['meta-llama', 'meta-llama-groq'],
+  'cohere': ['cohere'],
+};
+
+// Outcome of mapping benchmark creators to configured provider keys
+export interface ProviderResolutionReport {
+  resolved: Record<string, string[]>; // Creator name -> provider keys serving its models
+  unresolvedCreators: string[]; // Benchmark creators no provider can serve
+  unresolvedProviders: string[]; // Configured provider keys no benchmark creator maps to
+}
+
+export class ProviderResolutionService {
+  private fuzzyMatchingService: FuzzyMatchingService;
+  private aliases: Record<string, string[]>;
+  private resolved: Map<string, string[]> = new Map();
+  private unresolved: Set<string> = new Set();
+
+  /**
+   * @param aliases - User aliases (creator name -> provider keys), checked before the built-in table
+   */
+  constructor(fuzzyMatchingService: FuzzyMatchingService, aliases: Record<string, string[]> = {}) {
+    this.fuzzyMatchingService = fuzzyMatchingService;
+    this.aliases = {};
+    for (const [creator, providers] of Object.entries(aliases)) {
+      this.aliases[this.fuzzyMatchingService.normalizeProviderName(creator)] = providers;
+    }
+  }
+
+  /**
+   * Resolve a benchmark creator name (e.g. "Meta") to the provider keys that can serve its models
+   * Tries user aliases, then built-in aliases, then a fuzzy match against known provider keys and names.
+   * @returns Provider keys, or an empty array when the creator could not be resolved
+   */
+  resolveCreator(creatorName: string): string[] {
+    const cached = this.resolved.get(creatorName);
+    if (cached) return cached;
+    if (this.unresolved.has(creatorName)) return [];
+
+    const normalized = this.fuzzyMatchingService.normalizeProviderName(creatorName);
+    const providers = this.aliases[normalized] ?? CREATOR_PROVIDER_ALIASES[normalized] ?? this.fuzzyResolve(creatorName);
+
+    if (providers.length === 0) {
+      this.unresolved.add(creatorName);
+      console.log(`[ProviderResolution] No provider can serve models from creator: ${creatorName}`);
+      return [];
+    }
+
+    this.resolved.set(creatorName, providers);
+    console.log(`[ProviderResolution] Resolved creator ${creatorName} -> ${providers.join(', ')}`);
+    return providers;
+  }
+
+  /**
+   * Report which creators resolved, which did not, and which configured providers nothing maps to
+   * @param configuredProviders - Provider keys the user supplied API keys for
+   */
+  getReport(configuredProviders: string[]): ProviderResolutionReport {
+    const servedProviders = new Set([...this.resolved.values()].flat());
+    return {
+      resolved: Object.fromEntries(this.resolved),
+      unresolvedCreators: [...this.unresolved],
+      unresolvedProviders: configuredProviders.filter(provider => !servedProviders.has(provider)),
+    };
+  }
+
+  /**
+   * Forget previous resolutions (called before benchmark data is reloaded)
+   */
+  reset(): void {
+    this.resolved.clear();
+    this.unresolved.clear();
+  }
+
+  /**
+   * Fuzzy-match a creator against provider keys and their display names
+   */
+  private fuzzyResolve(creatorName: string): string[] {
+    const providerKeys = Object.keys(PROVIDER_CONFIGS) as Array<keyof typeof PROVIDER_CONFIGS>;
+    // Scale tolerance with length so short names like "Z AI" don't match "xai"
+    const maxDistance = Math.min(2, Math.floor(this.fuzzyMatchingService.normalizeProviderName(creatorName).length / 4));
+
+    const keyMatch = this.fuzzyMatchingService.findClosestMatch(creatorName, providerKeys, maxDistance);
+    if (keyMatch) return [keyMatch];
+
+    const displayNames = providerKeys.map(key => PROVIDER_CONFIGS[key].name);
+    const nameMatch = this.fuzzyMatchingService.findClosestMatch(creatorName, displayNames, maxDistance);
+    const matchedKey = providerKeys.find(key => PROVIDER_CONFIGS[key].name === nameMatch);
+    return matchedKey ? [matchedKey] : [];
+  }
+}
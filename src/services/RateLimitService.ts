@@ -0,0 +1,456 @@
+import { createHash } from 'node:crypto';
+import type { BaseProvider, ChatMessage, ProviderRequestOptions, ProviderResult, RateLimitInfo } from '../providers/base.js';
+import { AbortedError, QueueTimeoutError } from '../providers/errors.js';
+import { DEFAULT_EXPECTED_OUTPUT_TOKENS } from './BudgetService.js';
+
+// Client-side limits for one API key; 0 disables a limit
+export interface RateLimits {
+  requestsPerMinute: number;
+  tokensPerMinute: number; // Estimated input plus expected output tokens, corrected by reported usage
+  maxConcurrent: number; // Calls in flight at once (streams count until they finish)
+  maxWaitMs: number; // Longest a call may queue for capacity before the router fails over; 0 waits without a limit
+}
+
+// Limits for every provider and for specific ones, each applied per API key
+export interface RateLimitConfig {
+  default?: Partial<RateLimits>;
+  providers?: Record<string, Partial<RateLimits>>; // Provider key -> overrides
+}
+
+// Snapshot of one API key's limiter
+export interface RateLimitStatus {
+  provider: string;
+  key: string; // Short fingerprint of the API key
+  requestsPerMinute: number; // Effective limit: configured, or learned from response headers if lower
+  tokensPerMinute: number;
+  availableRequests?: number; // Unset when there is no request limit
+  availableTokens?: number; // Unset when there is no token limit
+  inFlight: number;
+  queued: number;
+  headroom: number; // 0-1: the tightest of request, token and concurrency capacity left; 0 while calls are queued
+}
+
+// Capacity handed to a call; give it back with release()
+export interface RateLimitPermit {
+  readonly limiterId: string;
+  readonly tokens: number; // Tokens reserved for the call
+}
+
+const DEFAULT_LIMITS: RateLimits = { requestsPerMinute: 0, tokensPerMinute: 0, maxConcurrent: 0, maxWaitMs: 30000 };
+
+const MINUTE_MS = 60000;
+
+// A stream its caller stops reading gives back its concurrency slot after this long
+const STREAM_IDLE_RELEASE_MS = 60000;
+
+// Token bucket holding up to a minute of capacity, refilled continuously
+class TokenBucket {
+  level: number;
+  private updatedAt = Date.now();
+
+  constructor(public capacity: number) {
+    this.level = capacity;
+  }
+
+  refill(now: number): void {
+    this.level = Math.min(this.capacity, this.level + ((now - this.updatedAt) * this.capacity) / MINUTE_MS);
+    this.updatedAt = now;
+  }
+
+  /**
+   * Time until `amount` can be taken. Amounts above the capacity only wait for a full bucket.
+   */
+  waitMs(amount: number): number {
+    const needed = Math.min(amount, this.capacity) - this.level;
+    return needed <= 0 ? 0 : (needed * MINUTE_MS) / this.capacity;
+  }
+}
+
+interface Waiter {
+  tokens: number;
+  deadline: number;
+  resolve: (permit: RateLimitPermit) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+interface Limiter {
+  id: string;
+  provider: string;
+  key: string;
+  learned: { requestsPerMinute?: number; tokensPerMinute?: number }; // Limits reported by response headers
+  requests?: TokenBucket | undefined;
+  tokens?: TokenBucket | undefined;
+  inFlight: number;
+  queue: Waiter[];
+  blockedUntil: number; // Set by a provider's retry-after
+  timer?: ReturnType<typeof setTimeout> | undefined;
+}
+
+/**
+ * Token-bucket rate limiting and concurrency limits per provider and API key.
+ * Calls over the limits queue in order until capacity frees up or their wait
+ * runs out; rate limit headers from responses tune the buckets as they arrive.
+ * OpenAI, Anthropic and Cohere trial keys send such headers; other providers
+ * are held to the configured limits only.
+ */
+export class RateLimitService {
+  private config: RateLimitConfig;
+  private limiters: Map<string, Limiter> = new Map();
+
+  constructor(config: RateLimitConfig = {}) {
+    this.config = config;
+  }
+
+  setConfig(config: RateLimitConfig): void {
+    this.config = config;
+    for (const limiter of this.limiters.values()) {
+      this.syncBuckets(limiter);
+      this.pump(limiter);
+    }
+    console.log('[RateLimit] Rate limits updated');
+  }
+
+  getConfig(): RateLimitConfig {
+    return this.config;
+  }
+
+  /**
+   * Get the configured limits for a provider
+   */
+  getLimits(providerName: string): RateLimits {
+    return { ...DEFAULT_LIMITS, ...this.config.default, ...this.config.providers?.[providerName] };
+  }
+
+  /**
+   * Wrap a provider so its calls go through the limiter for its API key
+   */
+  wrap(provider: BaseProvider, providerName: string, apiKey: string): BaseProvider {
+    return new RateLimitedProvider(provider, this, providerName, apiKey);
+  }
+
+  /**
+   * Wait for capacity for one call
+   * @param tokens - Estimated tokens the call will use
+   * @param signal - Abandons the wait when aborted
+   * @throws QueueTimeoutError when capacity does not free up within maxWaitMs, AbortedError when the signal aborts
+   */
+  acquire(providerName: string, apiKey: string, tokens: number, signal?: AbortSignal): Promise<RateLimitPermit> {
+    const limiter = this.getLimiter(providerName, apiKey);
+    if (signal?.aborted) {
+      return Promise.reject(new AbortedError(`Aborted while waiting for ${providerName} rate limit capacity`, { provider: providerName }));
+    }
+
+    const { maxWaitMs } = this.getLimits(providerName);
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.removeWaiter(limiter, waiter);
+        reject(new AbortedError(`Aborted while waiting for ${providerName} rate limit capacity`, { provider: providerName }));
+      };
+      const waiter: Waiter = {
+        tokens,
+        deadline: maxWaitMs > 0 ? Date.now() + maxWaitMs : Infinity,
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      limiter.queue.push(waiter);
+      this.pump(limiter);
+    });
+  }
+
+  /**
+   * Give back a permit's concurrency slot, correcting its token reservation with the usage actually reported
+   */
+  release(permit: RateLimitPermit, actualTokens?: number): void {
+    const limiter = this.limiters.get(permit.limiterId);
+    if (!limiter) return;
+    limiter.inFlight = Math.max(0, limiter.inFlight - 1);
+    if (limiter.tokens && actualTokens !== undefined) {
+      limiter.tokens.level = Math.min(limiter.tokens.capacity, limiter.tokens.level + permit.tokens - actualTokens);
+    }
+    this.pump(limiter);
+  }
+
+  /**
+   * Tune an API key's buckets from the rate limit headers of a response
+   */
+  observe(providerName: string, apiKey: string, info: RateLimitInfo): void {
+    const limiter = this.getLimiter(providerName, apiKey);
+    if (info.limitRequests !== undefined) limiter.learned.requestsPerMinute = info.limitRequests;
+    if (info.limitTokens !== undefined) limiter.learned.tokensPerMinute = info.limitTokens;
+    this.syncBuckets(limiter);
+
+    const now = Date.now();
+    if (limiter.requests && info.remainingRequests !== undefined) {
+      limiter.requests.refill(now);
+      limiter.requests.level = Math.min(limiter.requests.level, info.remainingRequests);
+    }
+    if (limiter.tokens && info.remainingTokens !== undefined) {
+      limiter.tokens.refill(now);
+      limiter.tokens.level = Math.min(limiter.tokens.level, info.remainingTokens);
+    }
+    if (info.retryAfterMs !== undefined) {
+      limiter.blockedUntil = Math.max(limiter.blockedUntil, now + info.retryAfterMs);
+      console.log(`[RateLimit] ${providerName} asked to retry after ${info.retryAfterMs}ms, holding its queue`);
+    }
+    this.pump(limiter);
+  }
+
+  /**
+   * Capacity left for an API key (0-1); 0 while calls are queued or the provider asked to back off
+   */
+  getHeadroom(providerName: string, apiKey: string): number {
+    const limiter = this.limiters.get(this.limiterId(providerName, apiKey));
+    return limiter ? this.measureHeadroom(limiter) : 1;
+  }
+
+  /**
+   * Get the state of every API key's limiter that has handled a call
+   */
+  getStatus(): RateLimitStatus[] {
+    const now = Date.now();
+    return [...this.limiters.values()].map(limiter => {
+      limiter.requests?.refill(now);
+      limiter.tokens?.refill(now);
+      return {
+        provider: limiter.provider,
+        key: limiter.key,
+        requestsPerMinute: limiter.requests?.capacity ?? 0,
+        tokensPerMinute: limiter.tokens?.capacity ?? 0,
+        ...(limiter.requests ? { availableRequests: Math.floor(limiter.requests.level) } : {}),
+        ...(limiter.tokens ? { availableTokens: Math.floor(limiter.tokens.level) } : {}),
+        inFlight: limiter.inFlight,
+        queued: limiter.queue.length,
+        headroom: this.measureHeadroom(limiter),
+      };
+    });
+  }
+
+  private measureHeadroom(limiter: Limiter): number {
+    const now = Date.now();
+    if (limiter.queue.length > 0 || limiter.blockedUntil > now) return 0;
+
+    const limits = this.getLimits(limiter.provider);
+    const shares = [1];
+    for (const bucket of [limiter.requests, limiter.tokens]) {
+      if (bucket) {
+        bucket.refill(now);
+        shares.push(Math.max(0, bucket.level) / bucket.capacity);
+      }
+    }
+    if (limits.maxConcurrent > 0) {
+      shares.push(Math.max(0, 1 - limiter.inFlight / limits.maxConcurrent));
+    }
+    return Math.min(...shares);
+  }
+
+  private limiterId(providerName: string, apiKey: string): string {
+    return `${providerName}|${this.fingerprint(apiKey)}`;
+  }
+
+  // Limiters are keyed by a hash so API keys are not kept in memory twice or shown in status
+  private fingerprint(apiKey: string): string {
+    return createHash('sha256').update(apiKey).digest('hex').slice(0, 12);
+  }
+
+  private getLimiter(providerName: string, apiKey: string): Limiter {
+    const id = this.limiterId(providerName, apiKey);
+    let limiter = this.limiters.get(id);
+    if (!limiter) {
+      limiter = { id, provider: providerName, key: this.fingerprint(apiKey), learned: {}, inFlight: 0, queue: [], blockedUntil: 0 };
+      this.syncBuckets(limiter);
+      this.limiters.set(id, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Size the buckets to the tighter of the configured and learned limits, keeping their fill level
+   */
+  private syncBuckets(limiter: Limiter): void {
+    const limits = this.getLimits(limiter.provider);
+    const effective = (configured: number, learned?: number) =>
+      Math.min(...[configured, learned ?? 0].filter(limit => limit > 0), Infinity);
+
+    const sizeBucket = (bucket: TokenBucket | undefined, limit: number): TokenBucket | undefined => {
+      if (!Number.isFinite(limit)) return undefined;
+      if (!bucket) return new TokenBucket(limit);
+      bucket.refill(Date.now());
+      bucket.capacity = limit;
+      bucket.level = Math.min(bucket.level, limit);
+      return bucket;
+    };
+    limiter.requests = sizeBucket(limiter.requests, effective(limits.requestsPerMinute, limiter.learned.requestsPerMinute));
+    limiter.tokens = sizeBucket(limiter.tokens, effective(limits.tokensPerMinute, limiter.learned.tokensPerMinute));
+  }
+
+  /**
+   * Grant queued calls in order while capacity allows, expire those left out of time,
+   * and schedule the next check
+   */
+  private pump(limiter: Limiter): void {
+    clearTimeout(limiter.timer);
+    limiter.timer = undefined;
+    const limits = this.getLimits(limiter.provider);
+    const now = Date.now();
+
+    let waitMs = 0;
+    while (limiter.queue.length > 0) {
+      const head = limiter.queue[0]!;
+      limiter.requests?.refill(now);
+      limiter.tokens?.refill(now);
+      if (limits.maxConcurrent > 0 && limiter.inFlight >= limits.maxConcurrent) {
+        waitMs = Infinity; // A release will pump again
+        break;
+      }
+      waitMs = Math.max(limiter.blockedUntil - now, limiter.requests?.waitMs(1) ?? 0, limiter.tokens?.waitMs(head.tokens) ?? 0);
+      if (waitMs > 0) break;
+
+      limiter.queue.shift();
+      if (limiter.requests) limiter.requests.level -= 1;
+      if (limiter.tokens) limiter.tokens.level -= head.tokens;
+      limiter.inFlight++;
+      head.cleanup();
+      head.resolve({ limiterId: limiter.id, tokens: head.tokens });
+    }
+
+    for (const waiter of [...limiter.queue]) {
+      if (waiter.deadline <= now) {
+        this.removeWaiter(limiter, waiter);
+        waiter.reject(new QueueTimeoutError(
+          `No ${limiter.provider} rate limit capacity within ${limits.maxWaitMs}ms (${limiter.inFlight} in flight, ${limiter.queue.length} queued)`,
+          { provider: limiter.provider }
+        ));
+      }
+    }
+
+    if (limiter.queue.length > 0) {
+      const nextDeadline = Math.min(...limiter.queue.map(waiter => waiter.deadline)) - now;
+      const delayMs = Math.min(waitMs, nextDeadline);
+      // Nothing to wait for but a concurrency slot, which release() hands over
+      if (Number.isFinite(delayMs)) {
+        limiter.timer = setTimeout(() => this.pump(limiter), Math.max(0, delayMs) + 1);
+      }
+    }
+  }
+
+  private removeWaiter(limiter: Limiter, waiter: Waiter): void {
+    const index = limiter.queue.indexOf(waiter);
+    if (index >= 0) limiter.queue.splice(index, 1);
+    waiter.cleanup();
+  }
+}
+
+/**
+ * Provider whose calls wait for rate limit capacity and report response headers back to the limiter
+ */
+class RateLimitedProvider implements BaseProvider {
+  constructor(
+    private provider: BaseProvider,
+    private limiter: RateLimitService,
+    private providerName: string,
+    private apiKey: string
+  ) {}
+
+  async sendMessage(model: string, messages: ChatMessage[], options: ProviderRequestOptions = {}): Promise<ProviderResult<string>> {
+    let permit: RateLimitPermit;
+    try {
+      permit = await this.limiter.acquire(this.providerName, this.apiKey, this.estimateTokens(messages, options), options.signal);
+    } catch (error) {
+      return this.queueFailure(error, model);
+    }
+
+    let result: ProviderResult<string> | undefined;
+    try {
+      result = await this.provider.sendMessage(model, messages, options);
+      if (result.rateLimit) this.limiter.observe(this.providerName, this.apiKey, result.rateLimit);
+      return result;
+    } finally {
+      this.limiter.release(permit, result?.usage?.totalTokens);
+    }
+  }
+
+  async streamMessage(model: string, messages: ChatMessage[], options: ProviderRequestOptions = {}): Promise<ProviderResult<AsyncIterable<string>>> {
+    let permit: RateLimitPermit;
+    try {
+      permit = await this.limiter.acquire(this.providerName, this.apiKey, this.estimateTokens(messages, options), options.signal);
+    } catch (error) {
+      return this.queueFailure(error, model);
+    }
+
+    try {
+      const result = await this.provider.streamMessage(model, messages, options);
+      if (result.rateLimit) this.limiter.observe(this.providerName, this.apiKey, result.rateLimit);
+      if (!result.success || !result.data) {
+        this.limiter.release(permit);
+        return result;
+      }
+      // The stream keeps its concurrency slot until it ends
+      return { ...result, data: this.releaseWhenDone(result.data, permit) };
+    } catch (error) {
+      this.limiter.release(permit);
+      throw error;
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.provider.isAvailable();
+  }
+
+  getCapabilities(): string[] {
+    return this.provider.getCapabilities();
+  }
+
+  private estimateTokens(messages: ChatMessage[], options: ProviderRequestOptions): number {
+    const inputTokens = Math.ceil(messages.reduce((chars, message) => chars + message.content.length, 0) / 4);
+    return inputTokens + (options.generation?.maxTokens ?? DEFAULT_EXPECTED_OUTPUT_TOKENS);
+  }
+
+  private queueFailure(error: unknown, model: string): ProviderResult<never> {
+    const failure = error instanceof QueueTimeoutError || error instanceof AbortedError
+      ? error
+      : new QueueTimeoutError(error instanceof Error ? error.message : String(error), { provider: this.providerName });
+    console.log(`[RateLimit] ${this.providerName}:${model} not sent: ${failure.message}`);
+    return { success: false, error: failure.message, failure, provider: this.providerName, model };
+  }
+
+  /**
+   * Hold a stream's permit until it ends or is closed with return(). A stream left
+   * unread releases the permit after STREAM_IDLE_RELEASE_MS so abandoned streams
+   * cannot use up maxConcurrent for good.
+   */
+  private releaseWhenDone(stream: AsyncIterable<string>, permit: RateLimitPermit): AsyncIterable<string> {
+    let released = false;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    const release = () => {
+      clearTimeout(idleTimer);
+      if (released) return;
+      released = true;
+      this.limiter.release(permit);
+    };
+    const startIdleTimer = () => {
+      idleTimer = setTimeout(() => {
+        console.log(`[RateLimit] ${this.providerName} stream unread for ${STREAM_IDLE_RELEASE_MS}ms, releasing its slot`);
+        release();
+      }, STREAM_IDLE_RELEASE_MS);
+      idleTimer.unref();
+    };
+
+    startIdleTimer();
+    return (async function* () {
+      clearTimeout(idleTimer);
+      try {
+        for await (const chunk of stream) {
+          // Idle only while the caller holds a chunk, not while the provider is producing the next
+          startIdleTimer();
+          yield chunk;
+          clearTimeout(idleTimer);
+        }
+      } finally {
+        release();
+      }
+    })();
+  }
+}
@@ -0,0 +1,132 @@
+import type { AnalysisResult } from './ChatService.js';
+
+// A local classification with the evidence behind it
+export interface ClassificationResult {
+  analysis: AnalysisResult;
+  confidence: number; // 0-1
+  signals: string[]; // Names of the signals that matched
+}
+
+type RequestCategory = 'coding' | 'math' | 'science' | 'general' | 'image' | 'audio' | 'video' | 'embedding';
+
+interface Signal {
+  name: string;
+  category: RequestCategory;
+  pattern: RegExp;
+  weight: number;
+}
+
+// Keyword and shape signals; weights reflect how strongly each one implies its category
+const SIGNALS: Signal[] = [
+  // Code
+  { name: 'code-fence', category: 'coding', pattern: /```/, weight: 3 },
+  { name: 'code-syntax', category: 'coding', pattern: /\b(function|def|class|import|return|const|let|var|public|static|void)\b[^\n]*[({=:;]/, weight: 2 },
+  { name: 'arrow-or-braces', category: 'coding', pattern: /=>|\{\s*\n|\);\s*$/m, weight: 1 },
+  { name: 'sql', category: 'coding', pattern: /\bselect\b[\s\S]+\bfrom\b|\binsert into\b|\bcreate table\b/i, weight: 2 },
+  { name: 'stack-trace', category: 'coding', pattern: /Traceback \(most recent call last\)|at \S+ \(\S+:\d+:\d+\)|\berror TS\d+|Exception in thread/, weight: 3 },
+  { name: 'code-words', category: 'coding', pattern: /\b(code|coding|bug|debug|refactor|compile|compiler|regex|api|endpoint|unit tests?|stack trace|repository|script|function|algorithm)\b/i, weight: 1 },
+  { name: 'languages', category: 'coding', pattern: /\b(python|javascript|typescript|java|rust|golang|c\+\+|c#|kotlin|swift|ruby|php|bash|sql|react|node\.?js)\b/i, weight: 1.5 },
+  { name: 'file-extension', category: 'coding', pattern: /\b[\w-]+\.(ts|tsx|js|jsx|py|rs|go|java|cpp|cs|rb|php|sh|sql)\b/, weight: 1.5 },
+
+  // Math
+  { name: 'latex', category: 'math', pattern: /\\(frac|int|sum|sqrt|lim|cdot|alpha|beta|theta)\b|\$[^$\n]+\$/, weight: 3 },
+  { name: 'equation', category: 'math', pattern: /\d\s*[-+*/^=]\s*\d|[a-z]\s*\^\s*\d|\b[a-z]\s*=\s*-?\d/i, weight: 1.5 },
+  { name: 'math-words', category: 'math', pattern: /\b(solve|equation|integral|derivative|prove|proof|theorem|probability|calculate|compute|matrix|polynomial|factorial|prime|geometry|algebra|calculus)\b/i, weight: 1.5 },
+
+  // Science
+  { name: 'science-words', category: 'science', pattern: /\b(physics|chemistry|biology|quantum|molecule|velocity|acceleration|thermodynamics|electron|photon|reaction|gravity|entropy|genome|protein)\b/i, weight: 1.5 },
+
+  // Media
+  { name: 'image-request', category: 'image', pattern: /\b(generate|create|draw|make|design|paint|render)\b[^.?!\n]{0,40}\b(image|picture|photo|illustration|drawing|logo|icon|poster|artwork)\b/i, weight: 4 },
+  { name: 'image-edit', category: 'image', pattern: /\b(edit|retouch|remove the background|upscale)\b[^.?!\n]{0,30}\b(image|photo|picture)\b/i, weight: 3 },
+  { name: 'speech-request', category: 'audio', pattern: /\b(text[- ]to[- ]speech|read (this|it) aloud|voice ?over|narrate|speak this|audio version)\b/i, weight: 4 },
+  { name: 'video-request', category: 'video', pattern: /\b(generate|create|make|render|animate)\b[^.?!\n]{0,40}\b(video|animation|clip)\b/i, weight: 4 },
+  { name: 'embedding-request', category: 'embedding', pattern: /\b(embeddings?|embed (this|these|the)|vector representation)\b/i, weight: 4 },
+];
+
+// Metrics the router selects on for each category
+const CATEGORY_ANALYSIS: Record<RequestCategory, AnalysisResult> = {
+  coding: {
+    requestType: 'coding',
+    relevantMetrics: ['artificial_analysis_coding_index', 'live_code_benchmark_index', 'science_code_benchmark_index'],
+    priorityMetrics: ['artificial_analysis_coding_index'],
+    modelType: 'llm',
+    capability: 'text',
+  },
+  math: {
+    requestType: 'math problem',
+    relevantMetrics: ['artificial_analysis_math_index', 'math_benchmark_index', 'aime_25_index'],
+    priorityMetrics: ['artificial_analysis_math_index'],
+    modelType: 'llm',
+    capability: 'text',
+  },
+  science: {
+    requestType: 'science question',
+    relevantMetrics: ['physics_knowledge_index', 'mmlu_pro_index', 'artificial_analysis_intelligence_index'],
+    priorityMetrics: ['mmlu_pro_index'],
+    modelType: 'llm',
+    capability: 'text',
+  },
+  general: {
+    requestType: 'general',
+    relevantMetrics: ['artificial_analysis_intelligence_index', 'mmlu_pro_index'],
+    priorityMetrics: ['artificial_analysis_intelligence_index'],
+    modelType: 'llm',
+    capability: 'text',
+  },
+  image: { requestType: 'image generation', relevantMetrics: ['elo'], priorityMetrics: ['elo'], modelType: 'media', capability: 'image' },
+  audio: { requestType: 'speech generation', relevantMetrics: ['elo'], priorityMetrics: ['elo'], modelType: 'media', capability: 'audio' },
+  video: { requestType: 'video generation', relevantMetrics: ['elo'], priorityMetrics: ['elo'], modelType: 'media', capability: 'video' },
+  embedding: { requestType: 'embedding', relevantMetrics: ['artificial_analysis_intelligence_index'], priorityMetrics: ['artificial_analysis_intelligence_index'], modelType: 'llm', capability: 'embedding' },
+};
+
+// Requests shorter than this with no signals are treated as confidently general
+const SHORT_REQUEST_CHARS = 280;
+
+/**
+ * Classifies requests locally with keyword, code and math heuristics,
+ * so the router only pays for an LLM analysis call on ambiguous requests.
+ */
+export class RequestClassifierService {
+  /**
+   * Classify a request into an AnalysisResult with a confidence score
+   */
+  classify(text: string): ClassificationResult {
+    const scores = new Map<RequestCategory, number>();
+    const signals: string[] = [];
+
+    for (const signal of SIGNALS) {
+      if (signal.pattern.test(text)) {
+        scores.set(signal.category, (scores.get(signal.category) ?? 0) + signal.weight);
+        signals.push(signal.name);
+      }
+    }
+
+    const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+    const top = ranked[0];
+
+    if (!top) {
+      // Nothing specific: short chat is almost always general, long text may hide intent
+      const confidence = text.length <= SHORT_REQUEST_CHARS ? 0.75 : 0.45;
+      return { analysis: this.buildAnalysis('general'), confidence, signals };
+    }
+
+    const [category, topScore] = top;
+    const runnerUpScore = ranked[1]?.[1] ?? 0;
+    // Stronger evidence raises confidence; competing categories lower it
+    const strength = Math.min(0.5 + 0.1 * topScore, 0.95);
+    const margin = topScore / (topScore + runnerUpScore);
+    const confidence = Math.round(strength * margin * 100) / 100;
+
+    return { analysis: this.buildAnalysis(category), confidence, signals };
+  }
+
+  private buildAnalysis(category: RequestCategory): AnalysisResult {
+    const analysis = CATEGORY_ANALYSIS[category];
+    return {
+      ...analysis,
+      relevantMetrics: [...analysis.relevantMetrics],
+      priorityMetrics: [...analysis.priorityMetrics],
+    };
+  }
+}
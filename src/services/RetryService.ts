@@ -0,0 +1,171 @@
+import type { ProviderResult } from '../providers/base.js';
+import { QueueTimeoutError } from '../providers/errors.js';
+import type { RouterError } from '../providers/errors.js';
+
+// Failure kinds worth retrying on the same model
+export type RetryableErrorClass = 'network' | 'timeout' | 'rate_limit' | 'overloaded' | 'server';
+
+// How often and how long to wait before retrying a failed call
+export interface RetryPolicy {
+  maxAttempts: number; // Total calls including the first; 1 disables retries
+  baseDelayMs: number; // Delay before the first retry, doubled for each further retry
+  maxDelayMs: number; // Cap on any single delay
+  jitter: number; // 0-1: fraction of each delay that is randomized, to spread out retries
+}
+
+// Policy overrides for every error class and for specific ones
+export interface RetryPolicyOverrides {
+  default?: Partial<RetryPolicy>;
+  errorClasses?: Partial<Record<RetryableErrorClass, Partial<RetryPolicy>>>;
+}
+
+export interface RetryConfig extends RetryPolicyOverrides {
+  providers?: Record<string, RetryPolicyOverrides>; // Provider key -> overrides, applied last
+}
+
+const DEFAULT_POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 8000, jitter: 0.5 };
+
+// Built-in per-class adjustments: rate limits need longer to clear than dropped connections
+const DEFAULT_CLASS_POLICIES: Partial<Record<RetryableErrorClass, Partial<RetryPolicy>>> = {
+  network: { baseDelayMs: 250 },
+  rate_limit: { baseDelayMs: 1000, maxDelayMs: 16000 },
+  overloaded: { baseDelayMs: 1000 },
+  timeout: { maxAttempts: 2 },
+};
+
+/**
+ * Retries transient provider failures on the same model with exponential
+ * backoff and jitter before the router fails over to the next candidate
+ */
+export class RetryService {
+  private config: RetryConfig;
+
+  constructor(config: RetryConfig = {}) {
+    this.config = config;
+  }
+
+  setConfig(config: RetryConfig): void {
+    this.config = config;
+    console.log('[Retry] Retry policy updated');
+  }
+
+  getConfig(): RetryConfig {
+    return this.config;
+  }
+
+  /**
+   * Classify a failed call
+   * @returns The retryable error class, or null for errors retrying will not fix
+   */
+  classify(message: string, status?: number): RetryableErrorClass | null {
+    const text = message.toLowerCase();
+
+    // Quota and billing errors also come back as 429 but do not clear by waiting
+    if (/insufficient_quota|quota exceeded|billing/.test(text)) return null;
+    if (status === 429 || /rate.?limit|too many requests/.test(text)) return 'rate_limit';
+    if (status === 529 || /overloaded|capacity/.test(text)) return 'overloaded';
+    if (status === 408 || status === 504 || /timed? ?out|etimedout/.test(text)) return 'timeout';
+    if (status !== undefined && status >= 500) return 'server';
+    if (status === undefined && /econnreset|econnrefused|enotfound|eai_again|socket hang up|fetch failed|network|connection error/.test(text)) {
+      return 'network';
+    }
+    return null;
+  }
+
+  /**
+   * Classify a normalized provider error
+   * @returns The retryable error class, or null for errors retrying will not fix
+   */
+  classifyFailure(failure: RouterError): RetryableErrorClass | null {
+    // Already waited its limit in the client-side queue; fail over instead
+    if (failure instanceof QueueTimeoutError) return null;
+    switch (failure.code) {
+      case 'rate_limit':
+      case 'timeout':
+      case 'network':
+        return failure.code;
+      case 'server':
+        return failure.status === 529 || /overloaded|capacity/i.test(failure.message) ? 'overloaded' : 'server';
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Get the effective policy for a provider and error class
+   */
+  getPolicy(providerName: string, errorClass: RetryableErrorClass): RetryPolicy {
+    const provider = this.config.providers?.[providerName];
+    return {
+      ...DEFAULT_POLICY,
+      ...DEFAULT_CLASS_POLICIES[errorClass],
+      ...this.config.default,
+      ...this.config.errorClasses?.[errorClass],
+      ...provider?.default,
+      ...provider?.errorClasses?.[errorClass],
+    };
+  }
+
+  /**
+   * Delay before a retry: exponential in the retry number, capped, with the jitter fraction randomized
+   * @param retry - 1 for the first retry
+   */
+  getDelayMs(policy: RetryPolicy, retry: number): number {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+    const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+    return exponential * (1 - jitter * Math.random());
+  }
+
+  /**
+   * Run a provider call, retrying transient failures per the provider's policy
+   * @param signal - Stops further retries (and the wait between them) when aborted
+   * @returns The last result, with retryCount set to the number of retries made
+   */
+  async run<T>(providerName: string, call: () => Promise<ProviderResult<T>>, signal?: AbortSignal): Promise<ProviderResult<T>> {
+    let retries = 0;
+    while (true) {
+      const result = await call();
+      if (result.success || signal?.aborted) {
+        return { ...result, retryCount: retries };
+      }
+
+      const errorClass = result.failure ? this.classifyFailure(result.failure) : this.classify(result.error ?? '', result.status);
+      if (!errorClass) {
+        return { ...result, retryCount: retries };
+      }
+      const policy = this.getPolicy(providerName, errorClass);
+      if (retries + 1 >= policy.maxAttempts) {
+        return { ...result, retryCount: retries };
+      }
+
+      retries++;
+      const delayMs = this.getDelayMs(policy, retries);
+      console.log(`[Retry] ${providerName} ${errorClass} error (${result.error}), retry ${retries}/${policy.maxAttempts - 1} in ${Math.round(delayMs)}ms`);
+      if (!(await this.sleep(delayMs, signal))) {
+        return { ...result, retryCount: retries - 1 };
+      }
+    }
+  }
+
+  /**
+   * Wait, returning early when the signal aborts
+   * @returns false if aborted
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+    return new Promise(resolve => {
+      if (signal?.aborted) {
+        resolve(false);
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve(false);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(true);
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,72 @@
+import type { ModelAttempt } from './ChatService.js';
+
+export type ExclusionStage = 'override' | 'circuit' | 'policy' | 'budget' | 'deadline';
+
+// A candidate removed from consideration, and why
+export interface ModelExclusion {
+  provider: string;
+  model: string;
+  stage: ExclusionStage;
+  reason: string;
+}
+
+// Everything the router decided for one request
+export interface RoutingAuditRecord {
+  requestId: string;
+  timestamp: number;
+  dataClassification?: string;
+  requestType?: string;
+  candidates: string[]; // provider:model keys that passed filtering
+  excluded: ModelExclusion[];
+  selected: string[]; // Strategy output, in the order tried
+  attempts: ModelAttempt[];
+  servedBy?: string; // provider:model that answered
+  outcome: 'success' | 'failed' | 'refused';
+  error?: string;
+}
+
+export interface AuditFilter {
+  since?: number;
+  until?: number;
+  outcome?: RoutingAuditRecord['outcome'];
+  dataClassification?: string;
+}
+
+/**
+ * Bounded, in-memory trail of routing decisions
+ */
+export class RoutingAuditService {
+  private records: RoutingAuditRecord[] = [];
+  private maxRecords: number;
+
+  constructor(maxRecords: number = 10000) {
+    this.maxRecords = maxRecords;
+  }
+
+  record(entry: RoutingAuditRecord): void {
+    this.records.push(entry);
+    if (this.records.length > this.maxRecords) {
+      this.records.splice(0, this.records.length - this.maxRecords);
+    }
+  }
+
+  /**
+   * Get audit records, oldest first
+   */
+  getRecords(filter: AuditFilter = {}): RoutingAuditRecord[] {
+    return this.records.filter(entry =>
+      (filter.since === undefined || entry.timestamp >= filter.since) &&
+      (filter.until === undefined || entry.timestamp < filter.until) &&
+      (filter.outcome === undefined || entry.outcome === filter.outcome) &&
+      (filter.dataClassification === undefined || entry.dataClassification === filter.dataClassification)
+    );
+  }
+
+  getRecord(requestId: string): RoutingAuditRecord | undefined {
+    return this.records.find(entry => entry.requestId === requestId);
+  }
+
+  clear(): void {
+    this.records = [];
+  }
+}
@@ -0,0 +1,224 @@
+export type JSONSchema = Record<string, unknown>;
+
+export type StructuredParseResult =
+  | { success: true; value: unknown }
+  | { success: false; error: string };
+
+/**
+ * Extracts, repairs and validates JSON returned by models.
+ * Validation covers the JSON Schema keywords models are realistically asked for:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * anyOf/oneOf and basic length/range bounds.
+ */
+export class StructuredOutputService {
+  /**
+   * Parse model output against a schema, repairing common formatting problems
+   */
+  parse(text: string, schema: JSONSchema): StructuredParseResult {
+    const candidate = this.extractJSON(text);
+    let value: unknown;
+
+    try {
+      value = JSON.parse(candidate);
+    } catch {
+      try {
+        value = JSON.parse(this.repairJSON(candidate));
+      } catch (error) {
+        return {
+          success: false,
+          error: `Response is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`
+        };
+      }
+    }
+
+    const errors = this.validate(value, schema);
+    if (errors.length > 0) {
+      return { success: false, error: `Response does not match schema: ${errors.slice(0, 5).join('; ')}` };
+    }
+    return { success: true, value };
+  }
+
+  /**
+   * Pull the JSON payload out of free-form text (markdown fences, leading prose)
+   */
+  extractJSON(text: string): string {
+    const trimmed = text.trim();
+
+    const fenced = trimmed.match(/```(?:json|JSON)?\s*([\s\S]*?)```/);
+    if (fenced?.[1]) {
+      return fenced[1].trim();
+    }
+
+    const start = trimmed.search(/[[{]/);
+    if (start === -1) return trimmed;
+    const closing = trimmed[start] === '{' ? '}' : ']';
+    const end = trimmed.lastIndexOf(closing);
+    return end > start ? trimmed.slice(start, end + 1) : trimmed.slice(start);
+  }
+
+  /**
+   * Fix the most common ways models break JSON syntax
+   */
+  repairJSON(text: string): string {
+    let repaired = text
+      .replace(/[“”]/g, '"') // Smart double quotes
+      .replace(/[‘’]/g, "'") // Smart single quotes
+      .replace(/\/\/[^\n"]*$/gm, '') // Line comments outside strings
+      .replace(/,\s*([}\]])/g, '$1'); // Trailing commas
+
+    // Close brackets left open by truncated output
+    const stack: string[] = [];
+    let inString = false;
+    for (let i = 0; i < repaired.length; i++) {
+      const char = repaired[i];
+      if (char === '\\' && inString) {
+        i++;
+        continue;
+      }
+      if (char === '"') inString = !inString;
+      if (inString) continue;
+      if (char === '{') stack.push('}');
+      else if (char === '[') stack.push(']');
+      else if (char === '}' || char === ']') stack.pop();
+    }
+    if (inString) repaired += '"';
+    while (stack.length > 0) {
+      repaired += stack.pop();
+    }
+
+    return repaired;
+  }
+
+  /**
+   * Validate a value against a JSON Schema
+   * @returns List of human-readable validation errors (empty when valid)
+   */
+  validate(value: unknown, schema: JSONSchema, path: string = '$'): string[] {
+    const errors: string[] = [];
+
+    if (Array.isArray(schema.anyOf)) {
+      if (!(schema.anyOf as JSONSchema[]).some(option => this.validate(value, option, path).length === 0)) {
+        errors.push(`${path} does not match any allowed schema`);
+      }
+      return errors;
+    }
+
+    if (Array.isArray(schema.oneOf)) {
+      const matches = (schema.oneOf as JSONSchema[]).filter(option => this.validate(value, option, path).length === 0).length;
+      if (matches === 0) {
+        errors.push(`${path} does not match any allowed schema`);
+      } else if (matches > 1) {
+        errors.push(`${path} matches ${matches} schemas but must match exactly one`);
+      }
+      return errors;
+    }
+
+    if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+      errors.push(`${path} must equal ${JSON.stringify(schema.const)}`);
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+      errors.push(`${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    }
+
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+      if (!types.some(type => this.matchesType(value, type))) {
+        errors.push(`${path} must be of type ${types.join(' | ')}`);
+        return errors; // Further checks assume the right type
+      }
+    }
+
+    if (typeof value === 'string') {
+      if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+        errors.push(`${path} must be at least ${schema.minLength} characters`);
+      }
+      if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+        errors.push(`${path} must be at most ${schema.maxLength} characters`);
+      }
+    }
+
+    if (typeof value === 'number') {
+      if (typeof schema.minimum === 'number' && value < schema.minimum) {
+        errors.push(`${path} must be >= ${schema.minimum}`);
+      }
+      if (typeof schema.maximum === 'number' && value > schema.maximum) {
+        errors.push(`${path} must be <= ${schema.maximum}`);
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} items`);
+      }
+      if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+        errors.push(`${path} must have at most ${schema.maxItems} items`);
+      }
+      if (schema.items && typeof schema.items === 'object') {
+        value.forEach((item, index) => {
+          errors.push(...this.validate(item, schema.items as JSONSchema, `${path}[${index}]`));
+        });
+      }
+    }
+
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      const record = value as Record<string, unknown>;
+      const properties = (schema.properties ?? {}) as Record<string, JSONSchema>;
+
+      for (const key of (schema.required ?? []) as string[]) {
+        if (!(key in record)) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+
+      for (const [key, propertyValue] of Object.entries(record)) {
+        const propertySchema = properties[key];
+        if (propertySchema) {
+          errors.push(...this.validate(propertyValue, propertySchema, `${path}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${key} is not allowed`);
+        } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+          errors.push(...this.validate(propertyValue, schema.additionalProperties as JSONSchema, `${path}.${key}`));
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Build a prompt instruction describing the expected JSON output
+   */
+  buildInstruction(schema: JSONSchema): string {
+    return `Respond with ONLY a JSON value that matches this JSON Schema. Do not wrap it in markdown or add any commentary.
+
+JSON Schema:
+${JSON.stringify(schema, null, 2)}`;
+  }
+
+  /**
+   * Build a follow-up message asking the model to correct invalid output
+   */
+  buildRepairPrompt(error: string): string {
+    return `Your previous response was invalid. ${error}
+
+Respond again with ONLY the corrected JSON value.`;
+  }
+
+  private matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+      case 'object':
+        return value !== null && typeof value === 'object' && !Array.isArray(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'integer':
+        return typeof value === 'number' && Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      case 'null':
+        return value === null;
+      default:
+        return typeof value === type;
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import type { AnalysisResult } from '../services/ChatService.js';
+import { averageMetricScore } from './base.js';
+import type { CandidateModel, SelectionStrategy } from './base.js';
+
+/**
+ * Highest scoring models on the analysis-selected metrics
+ */
+export class AccurateStrategy implements SelectionStrategy {
+  readonly name = 'accurate';
+
+  select(models: CandidateModel[], analysis: AnalysisResult): CandidateModel[] {
+    const relevantMetrics = analysis.relevantMetrics;
+
+    console.log(`[Strategy] Selecting most accurate models using metrics: ${relevantMetrics.join(', ')}`);
+
+    return [...models]
+      .sort((a, b) => averageMetricScore(b, relevantMetrics) - averageMetricScore(a, relevantMetrics)) // Highest first
+      .slice(0, 5); // Return top 5 most accurate
+  }
+}
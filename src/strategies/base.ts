@@ -0,0 +1,39 @@
+import type { LLMModelData, MediaModelData, RouterClient } from '../client.js';
+import type { ChatMessage } from '../providers/base.js';
+import type { AnalysisResult } from '../services/ChatService.js';
+import type { ModelScore } from './scoring.js';
+
+// A model the router may send a request to
+export type CandidateModel = LLMModelData | MediaModelData;
+
+// Per-request information available to a selection strategy
+export interface SelectionContext {
+  client: RouterClient; // Access to providers, catalog, budgets and spend
+  messages: ChatMessage[]; // The conversation being routed
+  /**
+   * Rank candidates with the router's analysis model (cost is recorded on the request)
+   * @throws Error when no analysis provider is configured or the ranking call fails
+   */
+  rankWithLLM(models: CandidateModel[], analysis: AnalysisResult): Promise<CandidateModel[]>;
+  /**
+   * Attach computed scores to the response metadata
+   */
+  recordScores(scores: ModelScore[]): void;
+}
+
+/**
+ * Orders candidate models for a request. The router tries the returned models
+ * in order, so the first entry is the preferred one.
+ */
+export interface SelectionStrategy {
+  readonly name: string;
+  select(models: CandidateModel[], analysis: AnalysisResult, context: SelectionContext): CandidateModel[] | Promise<CandidateModel[]>;
+}
+
+/**
+ * Average a model's scores over the given metrics, treating missing scores as zero
+ */
+export function averageMetricScore(model: CandidateModel, metrics: string[]): number {
+  if (metrics.length === 0) return 0;
+  return metrics.reduce((sum, metric) => sum + (model.evaluations.get(metric) || 0), 0) / metrics.length;
+}
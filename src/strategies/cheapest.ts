@@ -0,0 +1,18 @@
+import type { AnalysisResult } from '../services/ChatService.js';
+import type { CandidateModel, SelectionStrategy } from './base.js';
+
+/**
+ * Cheapest models among those with the analysis-selected metrics
+ */
+export class CheapestStrategy implements SelectionStrategy {
+  readonly name = 'cheapest';
+
+  select(models: CandidateModel[], analysis: AnalysisResult): CandidateModel[] {
+    console.log(`[Strategy] Selecting cheapest models among those with metrics: ${analysis.relevantMetrics.join(', ')}`);
+
+    return models
+      .filter(model => model.price > 0) // Only models with price info
+      .sort((a, b) => a.price - b.price) // Sort by price (lowest first)
+      .slice(0, 5); // Return top 5 cheapest
+  }
+}
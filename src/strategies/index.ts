@@ -0,0 +1,7 @@
+export * from './base.js';
+export * from './cheapest.js';
+export * from './accurate.js';
+export * from './middle.js';
+export * from './scoring.js';
+export * from './weighted.js';
+export * from './registry.js';
@@ -0,0 +1,42 @@
+import type { AnalysisResult } from '../services/ChatService.js';
+import { averageMetricScore } from './base.js';
+import type { CandidateModel, SelectionContext, SelectionStrategy } from './base.js';
+
+/**
+ * Best balance of accuracy and price, ranked by the router's analysis model
+ * with a score-per-price heuristic as fallback
+ */
+export class MiddleStrategy implements SelectionStrategy {
+  readonly name = 'middle';
+
+  async select(models: CandidateModel[], analysis: AnalysisResult, context: SelectionContext): Promise<CandidateModel[]> {
+    try {
+      return await context.rankWithLLM(models, analysis);
+    } catch (error) {
+      console.warn('[Strategy] LLM-assisted ranking unavailable, falling back to automatic balance calculation:', error instanceof Error ? error.message : error);
+      return this.selectBalanced(models, analysis);
+    }
+  }
+
+  /**
+   * Rank by average relevant score divided by price
+   */
+  private selectBalanced(models: CandidateModel[], analysis: AnalysisResult): CandidateModel[] {
+    const relevantMetrics = analysis.relevantMetrics;
+
+    console.log(`[Strategy] Selecting balanced models using metrics: ${relevantMetrics.join(', ')}`);
+
+    return models
+      .filter(model => model.price > 0) // Only models with price info
+      .map(model => {
+        const relevantScore = averageMetricScore(model, relevantMetrics);
+        return { model, relevantScore, valueScore: relevantScore / model.price };
+      })
+      .sort((a, b) => b.valueScore - a.valueScore) // Sort by highest value score
+      .slice(0, 5) // Return top 5
+      .map(item => {
+        console.log(`[Strategy] Balanced model ${item.model.provider_name}:${item.model.name} - Score: ${item.relevantScore.toFixed(2)}, Price: ${item.model.price}, Value: ${item.valueScore.toFixed(2)}`);
+        return item.model;
+      });
+  }
+}
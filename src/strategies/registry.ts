@@ -0,0 +1,59 @@
+import { AccurateStrategy } from './accurate.js';
+import { CheapestStrategy } from './cheapest.js';
+import { MiddleStrategy } from './middle.js';
+import { WeightedStrategy } from './weighted.js';
+import type { SelectionStrategy } from './base.js';
+
+/**
+ * Selection strategies by name, preloaded with the built-in strategies
+ */
+export class StrategyRegistry {
+  private strategies: Map<string, SelectionStrategy> = new Map();
+
+  constructor() {
+    this.register(new CheapestStrategy());
+    this.register(new AccurateStrategy());
+    this.register(new MiddleStrategy());
+    this.register(new WeightedStrategy());
+  }
+
+  /**
+   * Register a strategy, replacing any existing strategy with the same name
+   */
+  register(strategy: SelectionStrategy): void {
+    if (this.strategies.has(strategy.name)) {
+      console.log(`[Strategy] Replacing selection strategy: ${strategy.name}`);
+    }
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  /**
+   * Remove a strategy by name
+   */
+  unregister(name: string): boolean {
+    return this.strategies.delete(name);
+  }
+
+  /**
+   * Get a strategy by name
+   * @throws Error when no strategy with that name is registered
+   */
+  get(name: string): SelectionStrategy {
+    const strategy = this.strategies.get(name);
+    if (!strategy) {
+      throw new Error(`Unknown selection strategy: ${name}`);
+    }
+    return strategy;
+  }
+
+  has(name: string): boolean {
+    return this.strategies.has(name);
+  }
+
+  /**
+   * Get the names of all registered strategies
+   */
+  getNames(): string[] {
+    return [...this.strategies.keys()];
+  }
+}
@@ -0,0 +1,123 @@
+import type { LLMModelData } from '../client.js';
+import { averageMetricScore } from './base.js';
+import type { CandidateModel } from './base.js';
+
+// Relative importance of each objective; only the ratios matter
+export interface ScoringWeights {
+  quality: number; // Average score on the request's relevant metrics
+  price: number; // Blended price per 1M tokens (lower is better)
+  latency: number; // Median time to first token (lower is better)
+  throughput: number; // Median output tokens per second (higher is better)
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  quality: 0.5,
+  price: 0.3,
+  latency: 0.1,
+  throughput: 0.1,
+};
+
+// Scores computed for one candidate; objective scores are normalized to 0-1 across candidates, higher is better
+export interface ModelScore {
+  provider: string;
+  model: string;
+  quality: number;
+  price: number;
+  latency: number;
+  throughput: number;
+  raw: {
+    quality: number;
+    blendedPrice: number;
+    timeToFirstToken: number;
+    tokensPerSecond: number;
+  };
+  score: number; // Weighted sum of the objective scores
+  paretoOptimal: boolean; // No other candidate is at least as good on every weighted objective and better on one
+}
+
+const OBJECTIVES = ['quality', 'price', 'latency', 'throughput'] as const;
+
+/**
+ * Blend input and output prices 3:1, matching Artificial Analysis' blended price
+ */
+export function blendedPrice(model: CandidateModel): number {
+  if (!('price_per_1M_input_tokens' in model)) return model.price;
+  return (3 * model.price_per_1M_input_tokens + model.price_per_1M_output_tokens) / 4;
+}
+
+/**
+ * Validate weights, filling unspecified objectives from the defaults
+ * @throws Error if any weight is negative or all weights are zero
+ */
+export function resolveScoringWeights(weights: Partial<ScoringWeights>): ScoringWeights {
+  const resolved = { ...DEFAULT_SCORING_WEIGHTS, ...weights };
+  if (OBJECTIVES.some(objective => !(resolved[objective] >= 0))) {
+    throw new Error('Scoring weights must be non-negative numbers');
+  }
+  if (OBJECTIVES.every(objective => resolved[objective] === 0)) {
+    throw new Error('At least one scoring weight must be greater than 0');
+  }
+  return resolved;
+}
+
+/**
+ * Score candidates on every objective, combine them with the given weights
+ * and mark the Pareto frontier
+ * @returns Scores sorted by weighted score, highest first
+ */
+export function scoreModels(models: CandidateModel[], relevantMetrics: string[], weights: ScoringWeights): ModelScore[] {
+  const raws = models.map(model => ({
+    quality: averageMetricScore(model, relevantMetrics),
+    blendedPrice: blendedPrice(model),
+    timeToFirstToken: (model as LLMModelData).median_time_to_first_token ?? 0,
+    tokensPerSecond: (model as LLMModelData).median_output_tokens_per_second ?? 0,
+  }));
+
+  const quality = normalize(raws.map(raw => raw.quality), true);
+  const price = normalize(raws.map(raw => raw.blendedPrice), false);
+  const latency = normalize(raws.map(raw => raw.timeToFirstToken), false);
+  const throughput = normalize(raws.map(raw => raw.tokensPerSecond), true);
+  const totalWeight = OBJECTIVES.reduce((sum, objective) => sum + weights[objective], 0);
+
+  const scores: ModelScore[] = models.map((model, i) => {
+    const objectives = { quality: quality[i]!, price: price[i]!, latency: latency[i]!, throughput: throughput[i]! };
+    return {
+      provider: model.provider_name,
+      model: model.name,
+      ...objectives,
+      raw: raws[i]!,
+      score: OBJECTIVES.reduce((sum, objective) => sum + weights[objective] * objectives[objective], 0) / totalWeight,
+      paretoOptimal: false,
+    };
+  });
+
+  // Only objectives the caller cares about count towards dominance
+  const weighted = OBJECTIVES.filter(objective => weights[objective] > 0);
+  for (const candidate of scores) {
+    candidate.paretoOptimal = !scores.some(other =>
+      other !== candidate &&
+      weighted.every(objective => other[objective] >= candidate[objective]) &&
+      weighted.some(objective => other[objective] > candidate[objective])
+    );
+  }
+
+  return scores.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Min-max normalize values to 0-1. Non-positive values mean the benchmark
+ * has no data and score 0; if all known values are equal they score 1.
+ */
+function normalize(values: number[], higherIsBetter: boolean): number[] {
+  const known = values.filter(value => value > 0);
+  if (known.length === 0) return values.map(() => 0);
+
+  const min = Math.min(...known);
+  const max = Math.max(...known);
+  return values.map(value => {
+    if (value <= 0) return 0;
+    if (max === min) return 1;
+    const position = (value - min) / (max - min);
+    return higherIsBetter ? position : 1 - position;
+  });
+}
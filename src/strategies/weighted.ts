@@ -0,0 +1,26 @@
+import type { AnalysisResult } from '../services/ChatService.js';
+import { scoreModels } from './scoring.js';
+import type { CandidateModel, SelectionContext, SelectionStrategy } from './base.js';
+
+/**
+ * Highest weighted score over quality, blended price, time to first token and throughput.
+ * Weights come from RouterClient.setScoringWeights.
+ */
+export class WeightedStrategy implements SelectionStrategy {
+  readonly name = 'weighted';
+
+  select(models: CandidateModel[], analysis: AnalysisResult, context: SelectionContext): CandidateModel[] {
+    const weights = context.client.getScoringWeights();
+    console.log(`[Strategy] Scoring models with weights quality=${weights.quality}, price=${weights.price}, latency=${weights.latency}, throughput=${weights.throughput}`);
+
+    const scores = scoreModels(models, analysis.relevantMetrics, weights);
+    context.recordScores(scores);
+
+    return scores
+      .slice(0, 5)
+      .map(score => {
+        console.log(`[Strategy] Weighted model ${score.provider}:${score.model} - Score: ${score.score.toFixed(3)}${score.paretoOptimal ? ' (Pareto-optimal)' : ''}`);
+        return models.find(model => model.provider_name === score.provider && model.name === score.model)!;
+      });
+  }
+}
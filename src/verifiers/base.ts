@@ -0,0 +1,33 @@
+import type { LLMModelData } from '../client.js';
+import type { ChatMessage } from '../providers/base.js';
+import type { JSONSchema } from '../services/StructuredOutputService.js';
+
+// How well an answer holds up, from 0 (reject) to 1 (fully trusted)
+export interface VerificationResult {
+  score: number;
+  reason?: string;
+}
+
+// Per-answer information and helpers available to a verifier
+export interface VerificationContext {
+  messages: ChatMessage[]; // The conversation being answered
+  model: LLMModelData; // The model that produced the answer
+  /**
+   * Ask the judge model for structured output (cost is recorded on the request)
+   * @throws Error when no judge model is available or its output does not match the schema
+   */
+  judge(prompt: string, schema: JSONSchema): Promise<unknown>;
+  /**
+   * Ask the answering model again at a higher temperature (cost is recorded on the request)
+   * @returns The answers that came back; failed samples are left out
+   */
+  resample(count: number): Promise<string[]>;
+}
+
+/**
+ * Scores an answer so a cascade can decide whether to escalate to a stronger model
+ */
+export interface AnswerVerifier {
+  readonly name: string;
+  verify(answer: string, context: VerificationContext): VerificationResult | Promise<VerificationResult>;
+}
@@ -0,0 +1,25 @@
+import { EnsembleService } from '../services/EnsembleService.js';
+import type { AnswerVerifier, VerificationContext, VerificationResult } from './base.js';
+
+/**
+ * Self-consistency: asks the same model again and scores how closely the
+ * extra samples agree with the answer. Unstable answers score low.
+ */
+export class SelfConsistencyVerifier implements AnswerVerifier {
+  readonly name = 'consistency';
+  private samples: number;
+  private ensemble = new EnsembleService();
+
+  constructor(samples: number = 2) {
+    this.samples = samples;
+  }
+
+  async verify(answer: string, context: VerificationContext): Promise<VerificationResult> {
+    const samples = await context.resample(this.samples);
+    if (samples.length === 0) {
+      return { score: 0, reason: 'no samples to compare against' };
+    }
+    const score = samples.reduce((sum, sample) => sum + this.ensemble.measureAgreement([answer, sample]), 0) / samples.length;
+    return { score, reason: `${samples.length} samples agree ${(score * 100).toFixed(0)}%` };
+  }
+}
@@ -0,0 +1,36 @@
+import type { AnswerVerifier, VerificationResult } from './base.js';
+
+// Phrases that mark an answer as a refusal or non-answer
+const REFUSAL_PATTERNS: RegExp[] = [
+  /\bI(?:'m| am) (?:sorry|unable|not able)\b/i,
+  /\bI can(?:'t|not) (?:help|assist|provide|answer|comply)\b/i,
+  /\bI (?:do not|don't) (?:have enough information|know)\b/i,
+  /\bas an AI(?: language model)?\b/i,
+];
+
+/**
+ * Cheap check with no extra calls: rejects empty answers and refusals,
+ * and marks down answers shorter than a minimum length
+ */
+export class HeuristicVerifier implements AnswerVerifier {
+  readonly name = 'heuristic';
+  private minLength: number;
+
+  constructor(minLength: number = 20) {
+    this.minLength = minLength;
+  }
+
+  verify(answer: string): VerificationResult {
+    const text = answer.trim();
+    if (text.length === 0) {
+      return { score: 0, reason: 'empty answer' };
+    }
+    if (REFUSAL_PATTERNS.some(pattern => pattern.test(text))) {
+      return { score: 0.1, reason: 'answer looks like a refusal' };
+    }
+    if (text.length < this.minLength) {
+      return { score: 0.5, reason: `answer is shorter than ${this.minLength} characters` };
+    }
+    return { score: 1 };
+  }
+}
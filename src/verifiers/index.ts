@@ -0,0 +1,5 @@
+export * from './base.js';
+export * from './heuristic.js';
+export * from './validation.js';
+export * from './judge.js';
+export * from './consistency.js';
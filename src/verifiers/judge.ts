@@ -0,0 +1,35 @@
+import type { JSONSchema } from '../services/StructuredOutputService.js';
+import type { AnswerVerifier, VerificationContext, VerificationResult } from './base.js';
+
+// Schema for the judge model's grade
+const GRADE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'integer', minimum: 0, maximum: 10 },
+    reasoning: { type: 'string' },
+  },
+  required: ['score', 'reasoning'],
+};
+
+/**
+ * Has a judge model grade the answer from 0 to 10
+ */
+export class JudgeVerifier implements AnswerVerifier {
+  readonly name = 'judge';
+
+  async verify(answer: string, context: VerificationContext): Promise<VerificationResult> {
+    const request = context.messages.filter(m => m.role !== 'tool').map(m => `${m.role}: ${m.content}`).join('\n\n');
+    const prompt = `Grade how well the answer below responds to the conversation.
+
+Conversation:
+${request}
+
+Answer:
+${answer}
+
+Give a "score" from 0 (wrong, unhelpful or a refusal) to 10 (correct, complete and helpful) and explain briefly in "reasoning".`;
+
+    const grade = await context.judge(prompt, GRADE_SCHEMA) as { score: number; reasoning: string };
+    return { score: grade.score / 10, reason: grade.reasoning };
+  }
+}
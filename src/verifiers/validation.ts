@@ -0,0 +1,29 @@
+import type { ChatMessage } from '../providers/base.js';
+import type { AnswerVerifier, VerificationContext, VerificationResult } from './base.js';
+
+// Caller-supplied check: true/false, or a 0-1 score
+export type ValidationFunction = (answer: string, messages: ChatMessage[]) => boolean | number | Promise<boolean | number>;
+
+/**
+ * Scores answers with a caller-supplied validation function (e.g. a parser or test run)
+ */
+export class ValidationVerifier implements AnswerVerifier {
+  readonly name = 'validation';
+  private validate: ValidationFunction;
+
+  constructor(validate: ValidationFunction) {
+    this.validate = validate;
+  }
+
+  async verify(answer: string, context: VerificationContext): Promise<VerificationResult> {
+    try {
+      const result = await this.validate(answer, context.messages);
+      if (typeof result === 'boolean') {
+        return result ? { score: 1 } : { score: 0, reason: 'failed validation' };
+      }
+      return { score: Math.min(Math.max(result, 0), 1) };
+    } catch (error) {
+      return { score: 0, reason: `validation threw: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+}